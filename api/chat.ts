@@ -0,0 +1,128 @@
+import { getProvider } from '../providers';
+import { t, requestLanguage } from '../language';
+
+// 内置的OpenAI兼容平台：固定接口地址
+const PLATFORM_URLS = {
+  openai: 'https://api.openai.com/v1',
+  doubao: 'https://ark.cn-beijing.volces.com/api/v3',
+  deepseek: 'https://api.deepseek.com',
+  openrouter: 'https://openrouter.ai/api/v1'
+};
+
+// 非OpenAI协议的平台，直接使用注册表中的同名适配器
+const NATIVE_PLATFORMS = ['gemini', 'anthropic', 'ollama'];
+
+// 把前端的平台选择映射为注册表中的适配器和配置
+function resolvePlatform(platform: string, apiKey: string, apiUrl?: string) {
+  if (platform === 'custom-openai') {
+    return apiUrl ? { providerId: 'openai', config: { apiKey, baseURL: apiUrl } } : null;
+  }
+  if (PLATFORM_URLS[platform]) {
+    return { providerId: 'openai', config: { apiKey, baseURL: PLATFORM_URLS[platform] } };
+  }
+  if (NATIVE_PLATFORMS.includes(platform)) {
+    return { providerId: platform, config: { apiKey, baseURL: apiUrl } };
+  }
+  return null;
+}
+
+export default async function handler(req: any, res: any) {
+  // 允许跨域请求，适配前端所有请求
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  // 处理浏览器预检OPTIONS请求，避免跨域报错
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  // 仅支持POST请求，符合接口规范
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  // 错误信息的语言：请求体的 language 或 Accept-Language
+  const language = requestLanguage(req);
+
+  try {
+    const { platform, apiKey, model, messages, apiUrl, action } = req.body;
+
+    // 基础校验：API Key不能为空（本地Ollama除外）
+    if (!apiKey && platform !== 'ollama') {
+      return res.status(400).json({ error: t('missing_api_key', {}, language) });
+    }
+
+    const resolved = resolvePlatform(platform, apiKey, apiUrl);
+    if (!resolved) {
+      return res.status(400).json({ error: t(platform === 'custom-openai' ? 'missing_api_url' : 'unsupported_platform', {}, language) });
+    }
+    const provider = getProvider(resolved.providerId);
+
+    // 处理【拉取模型】和【测试链接】的特殊请求（带action字段），统一走模型注册表
+    if (action === 'fetchModels' || action === 'testConnection') {
+      try {
+        if (action === 'testConnection' && model) {
+          const message = await provider.testConnection({ ...resolved.config, model });
+          return res.status(200).json({ success: true, message });
+        }
+        const models = await provider.listModels(resolved.config);
+        // 保持OpenAI /models 的返回格式，前端无需区分平台
+        return res.status(200).json({ object: 'list', data: models.map(id => ({ id, object: 'model' })) });
+      } catch (error) {
+        return res.status(502).json({ error: error.message });
+      }
+    }
+
+    // 处理【发送消息】请求：校验model和messages
+    if (!model || !messages) {
+      return res.status(400).json({ error: t('missing_model_or_messages', {}, language) });
+    }
+
+    // 非OpenAI协议的平台：经适配器调用后包装成OpenAI格式返回
+    if (resolved.providerId !== 'openai') {
+      try {
+        const content = await provider.chat({ ...resolved.config, model }, messages);
+        return res.status(200).json({ choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }] });
+      } catch (error) {
+        return res.status(502).json({ error: error.message });
+      }
+    }
+
+    // OpenAI兼容平台：透传标准请求体
+    const targetUrl = `${resolved.config.baseURL.replace(/\/+$/, '')}/chat/completions`;
+    return await forwardRequest(req, res, targetUrl, { model, messages }, 'POST', language);
+
+  } catch (error) {
+    console.error('后端转发请求失败:', error);
+    return res.status(500).json({ error: t('internal_error', { error: error.message }, language) });
+  }
+}
+
+// 封装转发请求的通用函数，复用GET/POST逻辑
+async function forwardRequest(req: any, res: any, targetUrl: string, body: any, method: string, language: string) {
+  const { apiKey } = req.body;
+  try {
+    const response = await fetch(targetUrl, {
+      method: method,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${apiKey}`
+      },
+      body: method === 'POST' ? JSON.stringify(body) : undefined
+    });
+
+    // 目标平台返回错误时，透传错误信息给前端
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: t('upstream_unknown_error', {}, language) }));
+      return res.status(response.status).json(errorData);
+    }
+
+    // 转发成功，透传目标平台的响应给前端
+    const data = await response.json();
+    return res.status(200).json(data);
+  } catch (error) {
+    console.error('转发请求失败:', error);
+    return res.status(500).json({ error: t('forward_failed', { error: error.message }, language) });
+  }
+}
@@ -0,0 +1,306 @@
+import db from './db';
+import crypto from 'crypto';
+import path from 'path';
+import fs from 'fs';
+import type { Request, Response, NextFunction } from 'express';
+
+// Access control and secrets at rest. Every /api/* route needs a session: the password (setting
+// auth_password_hash, or the APP_PASSWORD environment variable) is exchanged for a token that clients
+// send as a Bearer header or the session cookie (EventSource and <img> can only send cookies);
+// APP_TOKEN is accepted as a static Bearer token for scripts; failed password and setup code
+// attempts back off per IP. API keys, fallback lists and auth settings are encrypted in the settings
+// table with a key derived from the server secret (APP_SECRET, else data/secret.key, created on
+// first start).
+
+const SESSION_COOKIE = 'session';
+const SESSION_DAYS = 30;
+const MIN_PASSWORD_LENGTH = 8;
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const MASK = '••••';
+const FREE_ATTEMPTS = 5; // Failed password or setup code attempts per IP before backoff starts
+const BACKOFF_BASE_MS = 1000; // Doubles with every further failure
+const BACKOFF_MAX_MS = 15 * 60 * 1000;
+
+// Reachable without a session
+const PUBLIC_ROUTES = ['/auth/status', '/auth/login', '/auth/setup'];
+
+export function isSecretSetting(key: string) {
+  return /_api_key$|_fallbacks$|^auth_/.test(key);
+}
+
+// --- Encryption ---
+
+let encryptionKey: Buffer | null = null;
+
+function serverSecret() {
+  if (process.env.APP_SECRET) return process.env.APP_SECRET;
+  const file = path.join(process.cwd(), 'data', 'secret.key');
+  if (!fs.existsSync(file)) {
+    fs.writeFileSync(file, crypto.randomBytes(32).toString('hex'), { mode: 0o600 });
+  }
+  return fs.readFileSync(file, 'utf8').trim();
+}
+
+function getEncryptionKey() {
+  if (!encryptionKey) {
+    encryptionKey = Buffer.from(crypto.hkdfSync('sha256', serverSecret(), 'my-ai-phone', 'settings-encryption', 32));
+  }
+  return encryptionKey;
+}
+
+export function isEncrypted(value: any) {
+  return typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX);
+}
+
+// AES-256-GCM; empty values stay empty
+export function encryptSecret(value: string) {
+  if (!value || isEncrypted(value)) return value;
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const data = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+  return ENCRYPTED_PREFIX + [iv, cipher.getAuthTag(), data].map(b => b.toString('base64')).join(':');
+}
+
+// Plain values (from before encryption) pass through; a value encrypted under another secret reads as empty
+export function decryptSecret(value: string) {
+  if (!isEncrypted(value)) return value;
+  try {
+    const [iv, tag, data] = value.slice(ENCRYPTED_PREFIX.length).split(':').map(p => Buffer.from(p, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', getEncryptionKey(), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(data), decipher.final()]).toString('utf8');
+  } catch (e) {
+    console.warn('Cannot decrypt a stored secret (was APP_SECRET or data/secret.key changed?)');
+    return '';
+  }
+}
+
+export function saveSecretSetting(key: string, value: string) {
+  db.prepare('INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)').run(key, encryptSecret(value || ''));
+}
+
+// Encrypt secrets still stored in plain text (safe to run repeatedly)
+export function encryptStoredSecrets() {
+  const rows = (db.prepare('SELECT key, value FROM settings').all() as any[]).filter(r => isSecretSetting(r.key) && r.value && !isEncrypted(r.value));
+  rows.forEach(r => saveSecretSetting(r.key, r.value));
+  return rows.length;
+}
+
+// --- Masking (what GET /api/settings shows) ---
+
+export function maskSecret(value: string) {
+  if (!value) return '';
+  return MASK + (value.length > 8 ? value.slice(-4) : '');
+}
+
+export function isMasked(value: any) {
+  return typeof value === 'string' && value.startsWith(MASK);
+}
+
+// Fallback lists keep everything but their keys
+export function maskSetting(key: string, value: string) {
+  if (!/_fallbacks$/.test(key)) return maskSecret(value);
+  try {
+    const list = JSON.parse(value || '[]');
+    return JSON.stringify(list.map((entry: any) => ({ ...entry, api_key: entry.api_key ? maskSecret(entry.api_key) : undefined })));
+  } catch (e) {
+    return '[]';
+  }
+}
+
+// --- Passwords and sessions ---
+
+function hashPassword(password: string) {
+  const salt = crypto.randomBytes(16);
+  return ['scrypt', salt.toString('base64'), crypto.scryptSync(password, salt, 64).toString('base64')].join('$');
+}
+
+function verifyPassword(password: string, stored: string) {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'base64');
+  return crypto.timingSafeEqual(crypto.scryptSync(password, Buffer.from(salt, 'base64'), expected.length), expected);
+}
+
+function safeEqual(a: string, b: string) {
+  const digest = (s: string) => crypto.createHash('sha256').update(s).digest();
+  return crypto.timingSafeEqual(digest(a), digest(b));
+}
+
+function storedPasswordHash() {
+  const row = db.prepare("SELECT value FROM settings WHERE key = 'auth_password_hash'").get() as any;
+  return row ? decryptSecret(row.value) : '';
+}
+
+export function isPasswordConfigured() {
+  return !!process.env.APP_PASSWORD || !!storedPasswordHash();
+}
+
+function checkPassword(password: string) {
+  if (typeof password !== 'string' || !password) return false;
+  if (process.env.APP_PASSWORD) return safeEqual(password, process.env.APP_PASSWORD);
+  const stored = storedPasswordHash();
+  return !!stored && verifyPassword(password, stored);
+}
+
+function validateNewPassword(password: any) {
+  if (process.env.APP_PASSWORD) throw new Error('The password is set by APP_PASSWORD');
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+}
+
+// Only the hash of a token is stored
+function tokenHash(token: string) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function createSession() {
+  const token = crypto.randomBytes(32).toString('base64url');
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + SESSION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  db.prepare('INSERT INTO auth_sessions (token_hash, created_at, expires_at) VALUES (?, ?, ?)').run(tokenHash(token), now.toISOString(), expiresAt);
+  db.prepare('DELETE FROM auth_sessions WHERE expires_at < ?').run(now.toISOString());
+  return { token, expires_at: expiresAt };
+}
+
+function requestToken(req: Request) {
+  const header = req.headers.authorization;
+  if (header?.startsWith('Bearer ')) return header.slice(7).trim();
+  const cookie = (req.headers.cookie || '').split(';').map(c => c.trim()).find(c => c.startsWith(`${SESSION_COOKIE}=`));
+  return cookie ? decodeURIComponent(cookie.slice(SESSION_COOKIE.length + 1)) : '';
+}
+
+function isValidToken(token: string) {
+  if (!token) return false;
+  if (process.env.APP_TOKEN && safeEqual(token, process.env.APP_TOKEN)) return true;
+  return !!db.prepare('SELECT 1 FROM auth_sessions WHERE token_hash = ? AND expires_at > ?').get(tokenHash(token), new Date().toISOString());
+}
+
+export function isAuthenticated(req: Request) {
+  return isValidToken(requestToken(req));
+}
+
+function setSessionCookie(req: Request, res: Response, session: { token: string; expires_at: string } | null) {
+  const attributes = ['Path=/', 'HttpOnly', 'SameSite=Strict', ...(req.secure ? ['Secure'] : [])];
+  res.setHeader('Set-Cookie', session
+    ? [`${SESSION_COOKIE}=${session.token}`, `Max-Age=${SESSION_DAYS * 24 * 60 * 60}`, ...attributes].join('; ')
+    : [`${SESSION_COOKIE}=`, 'Max-Age=0', ...attributes].join('; '));
+}
+
+// --- Attempt limiting ---
+
+// Failed attempts per client IP; after FREE_ATTEMPTS every failure locks the IP out for twice as long
+const failedAttempts = new Map<string, { count: number; lockedUntil: number }>();
+
+function clientKey(req: Request) {
+  return req.ip || req.socket?.remoteAddress || 'unknown';
+}
+
+// Answers 429 (with Retry-After) while the client is locked out
+function isLockedOut(req: Request, res: Response) {
+  const entry = failedAttempts.get(clientKey(req));
+  const wait = entry ? entry.lockedUntil - Date.now() : 0;
+  if (wait <= 0) return false;
+  res.setHeader('Retry-After', String(Math.ceil(wait / 1000)));
+  res.status(429).json({ error: 'Too many failed attempts, try again later' });
+  return true;
+}
+
+function recordFailure(req: Request) {
+  const now = Date.now();
+  // Entries whose lockout ran out long ago are forgotten
+  for (const [key, entry] of failedAttempts) {
+    if (entry.lockedUntil && entry.lockedUntil < now - BACKOFF_MAX_MS) failedAttempts.delete(key);
+  }
+  const entry = failedAttempts.get(clientKey(req)) || { count: 0, lockedUntil: 0 };
+  entry.count++;
+  if (entry.count > FREE_ATTEMPTS) {
+    entry.lockedUntil = now + Math.min(BACKOFF_BASE_MS * 2 ** (entry.count - FREE_ATTEMPTS - 1), BACKOFF_MAX_MS);
+  }
+  failedAttempts.set(clientKey(req), entry);
+}
+
+function clearFailures(req: Request) {
+  failedAttempts.delete(clientKey(req));
+}
+
+// Until a password exists, setup needs this code from the server console, so the first visitor on
+// the network cannot claim the server
+let setupCode: string | null = null;
+
+export function announceSetupCode() {
+  if (isPasswordConfigured()) return;
+  setupCode = setupCode || crypto.randomBytes(16).toString('hex');
+  console.log(`No password set. Finish setup in the app with the code: ${setupCode}`);
+}
+
+// Mounted on /api before every route
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (PUBLIC_ROUTES.includes(req.path) || isAuthenticated(req)) return next();
+  res.status(401).json({ error: 'Authentication required' });
+}
+
+// --- Route handlers (registered by server.ts) ---
+
+export function authStatus(req: Request, res: Response) {
+  res.json({ configured: isPasswordConfigured(), authenticated: isAuthenticated(req) });
+}
+
+// First password: { password, code }
+export function setup(req: Request, res: Response) {
+  if (isPasswordConfigured()) return res.status(409).json({ error: 'A password is already set' });
+  if (isLockedOut(req, res)) return;
+  if (!setupCode || typeof req.body.code !== 'string' || !safeEqual(req.body.code.trim(), setupCode)) {
+    recordFailure(req);
+    return res.status(403).json({ error: 'Invalid setup code (see the server console)' });
+  }
+  clearFailures(req);
+  try {
+    validateNewPassword(req.body.password);
+  } catch (e: any) {
+    return res.status(400).json({ error: e.message });
+  }
+  saveSecretSetting('auth_password_hash', hashPassword(req.body.password));
+  setupCode = null;
+  const session = createSession();
+  setSessionCookie(req, res, session);
+  res.json(session);
+}
+
+export function login(req: Request, res: Response) {
+  if (!isPasswordConfigured()) return res.status(409).json({ error: 'No password set yet' });
+  if (isLockedOut(req, res)) return;
+  if (!checkPassword(req.body.password)) {
+    recordFailure(req);
+    return res.status(401).json({ error: 'Wrong password' });
+  }
+  clearFailures(req);
+  const session = createSession();
+  setSessionCookie(req, res, session);
+  res.json(session);
+}
+
+export function logout(req: Request, res: Response) {
+  db.prepare('DELETE FROM auth_sessions WHERE token_hash = ?').run(tokenHash(requestToken(req)));
+  setSessionCookie(req, res, null);
+  res.status(204).send();
+}
+
+// { current_password, new_password }; every other session is signed out
+export function changePassword(req: Request, res: Response) {
+  if (isLockedOut(req, res)) return;
+  if (!checkPassword(req.body.current_password)) {
+    recordFailure(req);
+    return res.status(401).json({ error: 'Wrong password' });
+  }
+  clearFailures(req);
+  try {
+    validateNewPassword(req.body.new_password);
+  } catch (e: any) {
+    return res.status(400).json({ error: e.message });
+  }
+  saveSecretSetting('auth_password_hash', hashPassword(req.body.new_password));
+  db.prepare('DELETE FROM auth_sessions WHERE token_hash != ?').run(tokenHash(requestToken(req)));
+  res.json({ success: true });
+}
@@ -0,0 +1,228 @@
+import db from './db';
+import { v4 as uuidv4 } from 'uuid';
+import { exportMedia, importMedia } from './media';
+import { moveDataUrls } from './migrations';
+import { savePersona } from './personas';
+import { isSecretSetting, decryptSecret, encryptStoredSecrets } from './auth';
+
+// Full backup / restore of data/app.db as a single versioned JSON archive
+
+export const BACKUP_FORMAT = 'my-ai-phone-backup';
+export const BACKUP_VERSION = 2; // 2: media files carried in `media`
+
+// Tables in dependency order (referenced tables first). `key` is the single-column primary key
+// that gets remapped on conflict; `refs` point columns at the table whose ids they hold.
+const TABLES: { name: string; key?: string; refs?: Record<string, string> }[] = [
+  { name: 'personas', key: 'id' },
+  { name: 'characters', key: 'id', refs: { persona_id: 'personas' } },
+  { name: 'group_members', refs: { group_id: 'characters', character_id: 'characters' } },
+  { name: 'message_swipes', key: 'id', refs: { chat_id: 'characters', sender_id: 'characters' } },
+  { name: 'messages', key: 'id', refs: { character_id: 'characters', sender_id: 'characters', swipe_id: 'message_swipes', persona_id: 'personas' } },
+  { name: 'moments', key: 'id', refs: { character_id: 'characters' } },
+  { name: 'moment_images', key: 'id', refs: { moment_id: 'moments' } },
+  { name: 'moment_likes', refs: { moment_id: 'moments', liker_id: 'characters' } },
+  { name: 'moment_audience', refs: { moment_id: 'moments', character_id: 'characters' } },
+  { name: 'moment_comments', key: 'id', refs: { moment_id: 'moments', author_id: 'characters' } },
+  { name: 'character_relationships', refs: { character_id: 'characters', target_id: 'characters' } },
+  { name: 'stickers', key: 'id', refs: { owner_id: 'characters' } },
+  { name: 'memories', key: 'id', refs: { owner_id: 'characters' } },
+  { name: 'prompt_templates', key: 'id' },
+  { name: 'character_templates', refs: { character_id: 'characters', template_id: 'prompt_templates' } },
+  { name: 'character_schedules', refs: { character_id: 'characters' } },
+  { name: 'usage_log', key: 'id', refs: { character_id: 'characters', chat_id: 'characters' } },
+  { name: 'character_tools', refs: { character_id: 'characters' } },
+  { name: 'scheduled_messages', key: 'id', refs: { character_id: 'characters', chat_id: 'characters' } },
+  { name: 'lorebooks', key: 'id' },
+  { name: 'lorebook_entries', key: 'id', refs: { lorebook_id: 'lorebooks', scope_id: 'characters' } },
+  { name: 'settings', key: 'key' }
+];
+
+// The password hash and sessions never leave this machine
+function isAuthSetting(key: string) {
+  return key.startsWith('auth_');
+}
+
+function tableColumns(table: string) {
+  return (db.prepare(`PRAGMA table_info(${table})`).all() as any[]).map(c => c.name);
+}
+
+export function createBackup(includeSecrets: boolean = false) {
+  const tables: Record<string, any[]> = {};
+  for (const { name } of TABLES) {
+    let rows = db.prepare(`SELECT * FROM ${name}`).all() as any[];
+    if (name === 'settings') {
+      // Secrets are exported decrypted: the encryption key stays on this server
+      rows = rows.filter(r => !isAuthSetting(r.key) && (includeSecrets || !isSecretSetting(r.key)))
+        .map(r => isSecretSetting(r.key) ? { ...r, value: decryptSecret(r.value) } : r);
+    }
+    tables[name] = rows;
+  }
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    created_at: new Date().toISOString(),
+    includes_secrets: includeSecrets,
+    tables,
+    media: exportMedia()
+  };
+}
+
+// Structural checks only; returns a list of problems (empty when the archive is usable)
+export function validateBackup(archive: any) {
+  const errors: string[] = [];
+  if (!archive || typeof archive !== 'object') return ['Archive is not an object'];
+  if (archive.format !== BACKUP_FORMAT) errors.push(`Unknown archive format: ${archive.format}`);
+  if (typeof archive.version !== 'number' || archive.version > BACKUP_VERSION) {
+    errors.push(`Unsupported archive version: ${archive.version} (this server reads up to ${BACKUP_VERSION})`);
+  }
+  if (!archive.tables || typeof archive.tables !== 'object') {
+    errors.push('Archive has no tables');
+    return errors;
+  }
+  if (archive.media !== undefined && (typeof archive.media !== 'object' || Array.isArray(archive.media))) {
+    errors.push('Archive media is not an object');
+  }
+  for (const { name, key } of TABLES) {
+    const rows = archive.tables[name];
+    if (rows === undefined) continue;
+    if (!Array.isArray(rows)) {
+      errors.push(`Table ${name} is not an array`);
+      continue;
+    }
+    if (key && rows.some(r => !r || r[key] === undefined || r[key] === null)) {
+      errors.push(`Table ${name} has rows without ${key}`);
+    }
+  }
+  return errors;
+}
+
+// mode 'replace' wipes the current data first; 'merge' keeps it and gives conflicting rows new ids
+export function restoreBackup(archive: any, mode: 'merge' | 'replace') {
+  const errors = validateBackup(archive);
+  if (errors.length > 0) {
+    const err: any = new Error(errors.join('; '));
+    err.validation = errors;
+    throw err;
+  }
+
+  const report: any = { mode, tables: {}, warnings: [] as string[] };
+  const idMaps: Record<string, Map<string, string>> = {};
+
+  const restore = db.transaction(() => {
+    if (mode === 'replace') {
+      for (const { name } of [...TABLES].reverse()) {
+        if (name === 'settings') {
+          // Keep the login, and the API keys of this machine when the archive has none
+          const keep = (key: string) => isAuthSetting(key) || (!archive.includes_secrets && isSecretSetting(key));
+          const kept = (db.prepare('SELECT key FROM settings').all() as any[]).filter(r => keep(r.key));
+          db.prepare(`DELETE FROM settings WHERE key NOT IN (${kept.map(() => '?').join(',') || "''"})`).run(...kept.map(r => r.key));
+          continue;
+        }
+        db.prepare(`DELETE FROM ${name}`).run();
+      }
+    }
+
+    for (const { name, key, refs } of TABLES) {
+      const rows: any[] = archive.tables[name] || [];
+      const columns = tableColumns(name);
+      const stats = { inserted: 0, remapped: 0, skipped: 0 };
+      idMaps[name] = new Map();
+
+      const unknown = new Set<string>();
+      rows.forEach(r => Object.keys(r).forEach(c => { if (!columns.includes(c)) unknown.add(c); }));
+      if (unknown.size > 0) report.warnings.push(`${name}: ignored unknown columns ${Array.from(unknown).join(', ')}`);
+
+      for (const original of rows) {
+        const row: any = {};
+        for (const column of columns) {
+          if (original[column] !== undefined) row[column] = original[column];
+        }
+
+        // Point references at remapped ids ('user' and unknown ids pass through)
+        for (const [column, target] of Object.entries(refs || {})) {
+          if (row[column] != null && idMaps[target]?.has(row[column])) {
+            row[column] = idMaps[target].get(row[column]);
+          }
+        }
+
+        if (name === 'settings') {
+          if (isAuthSetting(row.key)) {
+            stats.skipped++;
+            continue;
+          }
+          // Merging never overwrites this machine's settings
+          const verb = mode === 'merge' ? 'INSERT OR IGNORE' : 'INSERT OR REPLACE';
+          const result = db.prepare(`${verb} INTO settings (key, value) VALUES (?, ?)`).run(row.key, row.value);
+          if (result.changes > 0) stats.inserted++; else stats.skipped++;
+          continue;
+        }
+
+        if (key && mode === 'merge') {
+          const exists = db.prepare(`SELECT 1 FROM ${name} WHERE ${key} = ?`).get(row[key]);
+          if (exists) {
+            const newId = uuidv4();
+            idMaps[name].set(row[key], newId);
+            row[key] = newId;
+            stats.remapped++;
+          }
+        }
+
+        if (name === 'prompt_templates' && mode === 'merge' && row.is_default) {
+          const hasDefault = db.prepare('SELECT 1 FROM prompt_templates WHERE use_case = ? AND is_default = 1').get(row.use_case);
+          if (hasDefault) row.is_default = 0;
+        }
+        if (name === 'personas' && mode === 'merge' && row.is_default) {
+          if (db.prepare('SELECT 1 FROM personas WHERE is_default = 1').get()) row.is_default = 0;
+        }
+
+        const cols = Object.keys(row);
+        const result = db.prepare(`INSERT OR IGNORE INTO ${name} (${cols.join(', ')}) VALUES (${cols.map(() => '?').join(', ')})`)
+          .run(...cols.map(c => row[c]));
+        if (result.changes > 0) stats.inserted++; else stats.skipped++;
+      }
+      report.tables[name] = stats;
+    }
+
+    // Archives from before personas carry the user as user_* settings
+    if (!archive.tables.personas) {
+      const legacy = (archive.tables.settings || []).filter((r: any) => /^user_(name|gender|bio|avatar|background)$/.test(r.key));
+      if (legacy.length > 0 && !db.prepare('SELECT 1 FROM personas').get()) {
+        const fields: any = {};
+        legacy.forEach((r: any) => fields[r.key.slice(5)] = r.value);
+        savePersona(null, { ...fields, name: fields.name || 'Me', is_default: true });
+      }
+      db.prepare("DELETE FROM settings WHERE key IN ('user_name', 'user_gender', 'user_bio', 'user_avatar', 'user_background')").run();
+    }
+
+    // Archives from before moment_likes carry a bare counter in moments.likes
+    if (!archive.tables.moment_likes) {
+      const update = db.prepare('UPDATE moments SET legacy_likes = ? WHERE id = ?');
+      for (const moment of archive.tables.moments || []) {
+        if (moment.likes > 0) update.run(moment.likes, idMaps.moments?.get(moment.id) ?? moment.id);
+      }
+    }
+
+    // Archives from before moment_images carry one image per moment in moments.image
+    if (!archive.tables.moment_images) {
+      const insert = db.prepare('INSERT OR IGNORE INTO moment_images (id, moment_id, url, position) VALUES (?, ?, ?, 0)');
+      for (const moment of archive.tables.moments || []) {
+        if (!moment.image) continue;
+        const momentId = idMaps.moments?.get(moment.id) ?? moment.id;
+        if (db.prepare('SELECT 1 FROM moments WHERE id = ?').get(momentId)) insert.run(uuidv4(), momentId, moment.image);
+      }
+    }
+  });
+  // Archives may hold rows written before foreign keys were enforced (e.g. orphaned messages)
+  db.pragma('foreign_keys = OFF');
+  try {
+    restore();
+  } finally {
+    db.pragma('foreign_keys = ON');
+  }
+
+  // Store the archive's files; version 1 archives still hold data URLs inline, which get moved too
+  report.media = importMedia(archive.media);
+  if (archive.version < 2) report.migrated = moveDataUrls(db);
+  encryptStoredSecrets();
+  return report;
+}
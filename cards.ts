@@ -0,0 +1,236 @@
+import db from './db';
+import { v4 as uuidv4 } from 'uuid';
+import { storeDataUrl, toDataUrl } from './media';
+import { importLorebook, exportScopedLore } from './lorebook';
+import { readPngText, writePngText } from './png';
+
+// Character Card V2 (SillyTavern) import/export.
+// Spec: https://github.com/malfoyslastname/character-card-spec-v2
+// PNG cards carry the card as base64 JSON in a `chara` tEXt chunk.
+
+// 1x1 PNG used when a character has no PNG avatar to embed the card into
+const PLACEHOLDER_PNG = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+// Our own fields that have no place in the spec travel in data.extensions under this key
+const EXTENSION_KEY = 'my_ai_phone';
+
+export interface ImportReport {
+  mapped: string[];
+  unmapped: { field: string; reason: string }[];
+  warnings: string[];
+}
+
+// --- Card parsing ---
+
+// Accepts a V2 card, a V1 card (flat fields) or a PNG with an embedded `chara` chunk
+export function parseCard(input: { card?: any; png?: string }) {
+  if (input.png) {
+    const base64 = input.png.replace(/^data:.*?;base64,/, '');
+    const png = Buffer.from(base64, 'base64');
+    const encoded = readPngText(png, 'chara') || readPngText(png, 'ccv3');
+    if (!encoded) throw new Error('PNG has no embedded character card (missing chara chunk)');
+    const card = JSON.parse(Buffer.from(encoded, 'base64').toString('utf8'));
+    return { card, avatar: `data:image/png;base64,${base64}` };
+  }
+  const card = typeof input.card === 'string' ? JSON.parse(input.card) : input.card;
+  if (!card || typeof card !== 'object') throw new Error('Missing character card');
+  return { card, avatar: null };
+}
+
+function replaceMacros(text: string, name: string) {
+  return (text || '').replace(/\{\{char\}\}|<BOT>/gi, name).trim();
+}
+
+// Map a card onto a `characters` row without touching the database
+export function mapCard(card: any) {
+  const report: ImportReport = { mapped: [], unmapped: [], warnings: [] };
+  const isV2 = card.spec === 'chara_card_v2' || card.spec === 'chara_card_v3';
+  if (!isV2) report.warnings.push('Card has no chara_card_v2 spec marker; read as a V1 card');
+  const data = isV2 ? card.data || {} : card;
+  const ext = data.extensions?.[EXTENSION_KEY] || {};
+
+  if (!data.name) throw new Error('Card is missing a name');
+  const name = String(data.name).trim();
+
+  const character: any = {
+    name,
+    bio: replaceMacros(data.description, name),
+    personality: replaceMacros(data.personality, name),
+    background: replaceMacros(data.scenario, name),
+    gender: ext.gender || '',
+    relationship: ext.relationship || 'Friend',
+    reply_strategy: ext.reply_strategy || 'normal',
+    other_info: ext.other_info || '',
+    avatar: ext.avatar || null
+  };
+  report.mapped.push('name');
+  if (data.description) report.mapped.push('description -> bio');
+  if (data.personality) report.mapped.push('personality -> personality');
+  if (data.scenario) report.mapped.push('scenario -> background');
+
+  // Example dialogue has no column of its own; keep it with the other info
+  if (data.mes_example && !ext.other_info) {
+    character.other_info = `Example dialogue:\n${replaceMacros(data.mes_example, name)}`;
+    report.mapped.push('mes_example -> other_info');
+  }
+
+  const firstMessage = data.first_mes ? replaceMacros(data.first_mes, name) : '';
+  if (firstMessage) report.mapped.push('first_mes -> first chat message');
+
+  const characterBook = Array.isArray(data.character_book?.entries) && data.character_book.entries.length > 0 ? data.character_book : null;
+  if (characterBook) report.mapped.push(`character_book -> lorebook scoped to the character (${characterBook.entries.length} entries)`);
+
+  const unmappedFields: Record<string, string> = {
+    system_prompt: 'Use a prompt template override instead',
+    post_history_instructions: 'No equivalent setting',
+    alternate_greetings: 'Only the first greeting is imported',
+    creator_notes: 'No equivalent field',
+    tags: 'No equivalent field',
+    creator: 'No equivalent field',
+    character_version: 'No equivalent field'
+  };
+  for (const [field, reason] of Object.entries(unmappedFields)) {
+    const value = data[field];
+    if (value && !(Array.isArray(value) && value.length === 0)) {
+      report.unmapped.push({ field, reason });
+    }
+  }
+  const otherExtensions = Object.keys(data.extensions || {}).filter(k => k !== EXTENSION_KEY);
+  if (otherExtensions.length > 0) {
+    report.unmapped.push({ field: `extensions.${otherExtensions.join(', extensions.')}`, reason: 'Extensions of other tools are ignored' });
+  }
+
+  return {
+    character,
+    firstMessage,
+    characterBook,
+    stickers: Array.isArray(ext.stickers) ? ext.stickers : [],
+    relationships: Array.isArray(ext.relationships) ? ext.relationships : [],
+    report
+  };
+}
+
+// Insert a mapped card: character, greeting, stickers and relationships (matched by target name)
+export function importCard(input: { card?: any; png?: string }) {
+  const { card, avatar } = parseCard(input);
+  const { character, firstMessage, characterBook, stickers, relationships, report } = mapCard(card);
+  const id = uuidv4();
+  const finalAvatar = storeDataUrl(avatar || character.avatar) || `https://api.dicebear.com/7.x/avataaars/svg?seed=${encodeURIComponent(character.name)}`;
+  if (avatar) report.mapped.push('PNG image -> avatar');
+
+  const insert = db.transaction(() => {
+    db.prepare('INSERT INTO characters (id, name, avatar, bio, personality, gender, other_info, background, relationship, is_group, reply_strategy) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)')
+      .run(id, character.name, finalAvatar, character.bio, character.personality, character.gender, character.other_info, character.background, character.relationship, 0, character.reply_strategy);
+
+    if (firstMessage) {
+      db.prepare('INSERT INTO messages (id, character_id, sender_id, sender_name, sender_avatar, content, type, timestamp) VALUES (?, ?, ?, ?, ?, ?, ?, ?)')
+        .run(uuidv4(), id, id, character.name, finalAvatar, firstMessage, 'text', new Date().toISOString());
+    }
+
+    for (const sticker of stickers) {
+      if (!sticker?.url) {
+        report.warnings.push('Skipped a sticker without url');
+        continue;
+      }
+      db.prepare('INSERT INTO stickers (id, owner_id, url, description) VALUES (?, ?, ?, ?)')
+        .run(uuidv4(), id, storeDataUrl(sticker.url), sticker.description || '');
+    }
+    if (stickers.length > 0) report.mapped.push(`${stickers.length} stickers`);
+
+    for (const rel of relationships) {
+      let targetId = rel.target === 'user' ? 'user' : null;
+      if (!targetId && rel.target_name) {
+        targetId = (db.prepare('SELECT id FROM characters WHERE name = ? AND is_group = 0 AND id != ?').get(rel.target_name, id) as any)?.id || null;
+      }
+      if (!targetId) {
+        report.warnings.push(`Relationship with "${rel.target_name}" skipped: no character with that name`);
+        continue;
+      }
+      db.prepare('INSERT OR REPLACE INTO character_relationships (character_id, target_id, relationship, description) VALUES (?, ?, ?, ?)')
+        .run(id, targetId, rel.relationship || '', rel.description || '');
+    }
+
+    if (characterBook) {
+      const { skipped } = importLorebook(characterBook, id, `${character.name} lore`);
+      if (skipped > 0) report.warnings.push(`${skipped} character_book entries skipped (no content or keywords)`);
+    }
+  });
+  insert();
+
+  return { id, character: db.prepare('SELECT * FROM characters WHERE id = ?').get(id), report };
+}
+
+// --- Export ---
+
+export function buildCard(characterId: string) {
+  const character = db.prepare('SELECT * FROM characters WHERE id = ?').get(characterId) as any;
+  if (!character) return null;
+
+  // Media references only resolve on this server, so files travel inline
+  const stickers = (db.prepare('SELECT url, description FROM stickers WHERE owner_id = ?').all(characterId) as any[])
+    .map(s => ({ ...s, url: toDataUrl(s.url) }));
+  const avatar = toDataUrl(character.avatar);
+  const relationships = (db.prepare('SELECT * FROM character_relationships WHERE character_id = ?').all(characterId) as any[]).map(r => {
+    if (r.target_id === 'user') return { target: 'user', relationship: r.relationship, description: r.description };
+    const target = db.prepare('SELECT name FROM characters WHERE id = ?').get(r.target_id) as any;
+    return { target_name: target?.name || '', relationship: r.relationship, description: r.description };
+  });
+
+  return {
+    spec: 'chara_card_v2',
+    spec_version: '2.0',
+    data: {
+      name: character.name,
+      description: character.bio || '',
+      personality: character.personality || '',
+      scenario: character.background || '',
+      first_mes: '',
+      mes_example: '',
+      creator_notes: '',
+      system_prompt: '',
+      post_history_instructions: '',
+      alternate_greetings: [],
+      tags: [],
+      creator: '',
+      character_version: '',
+      character_book: exportScopedLore(characterId, `${character.name} lore`),
+      extensions: {
+        [EXTENSION_KEY]: {
+          gender: character.gender || '',
+          relationship: character.relationship || '',
+          reply_strategy: character.reply_strategy || 'normal',
+          other_info: character.other_info || '',
+          // The PNG itself is the avatar; keep non-PNG avatars (e.g. URLs) here
+          avatar: avatar && !avatar.startsWith('data:image/png') ? avatar : undefined,
+          stickers,
+          relationships
+        }
+      }
+    }
+  };
+}
+
+async function loadAvatarPng(avatar: string) {
+  avatar = toDataUrl(avatar);
+  if (avatar?.startsWith('data:image/png;base64,')) {
+    return Buffer.from(avatar.split(',')[1], 'base64');
+  }
+  if (avatar?.startsWith('http')) {
+    try {
+      const response = await fetch(avatar);
+      if (response.ok && (response.headers.get('content-type') || '').includes('image/png')) {
+        return Buffer.from(await response.arrayBuffer());
+      }
+    } catch (e) {}
+  }
+  return Buffer.from(PLACEHOLDER_PNG, 'base64');
+}
+
+export async function buildCardPng(characterId: string) {
+  const card = buildCard(characterId);
+  if (!card) return null;
+  const character = db.prepare('SELECT avatar FROM characters WHERE id = ?').get(characterId) as any;
+  const png = await loadAvatarPng(character.avatar);
+  const encoded = Buffer.from(JSON.stringify(card), 'utf8').toString('base64');
+  return writePngText(png, 'chara', encoded);
+}
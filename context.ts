@@ -0,0 +1,147 @@
+import db from './db';
+import { DEFAULT_MODELS, resolveProvider } from './providers';
+import { t } from './language';
+
+// Token-aware context budgeting. Prompts are sized in (estimated) tokens for the configured chat
+// model instead of by row count: the reply gets a reserve, memory and the sticker list get capped
+// shares of the system prompt, and history fills whatever is left, newest messages first.
+
+// Rough per-provider tokenizer ratios; good enough for budgeting without shipping tokenizers
+const TOKEN_RATIOS: Record<string, { charsPerToken: number; tokensPerCjk: number }> = {
+  openai: { charsPerToken: 4, tokensPerCjk: 1 },
+  gemini: { charsPerToken: 4, tokensPerCjk: 0.75 },
+  anthropic: { charsPerToken: 3.5, tokensPerCjk: 1.2 },
+  ollama: { charsPerToken: 3.5, tokensPerCjk: 1.2 }
+};
+const MESSAGE_OVERHEAD = 4; // Role and separators of one chat message
+
+// Context windows by model name; the first match wins. Ollama serves a small window unless configured.
+const MODEL_CONTEXT_SIZES: [RegExp, number][] = [
+  [/^gpt-4o|^gpt-4\.1|^gpt-4-turbo|^o\d/, 128000],
+  [/^gpt-3\.5/, 16385],
+  [/^gpt-4/, 8192],
+  [/gemini/, 1048576],
+  [/claude/, 200000],
+  [/deepseek/, 64000],
+  [/qwen|glm|moonshot|kimi/, 32768]
+];
+const PROVIDER_CONTEXT_SIZES: Record<string, number> = { ollama: 4096 };
+export const DEFAULT_CONTEXT_SIZE = 8192;
+
+const REPLY_RESERVE = 1024;
+const MEMORY_SHARE = 0.15; // Of the prompt budget
+const STICKER_SHARE = 0.1;
+const LORE_SHARE = 0.15;
+export const MAX_HISTORY_MESSAGES = 200; // Rows scanned for the chat prompt
+export const PROMPT_HISTORY_MESSAGES = 30; // Rows scanned for one-shot prompts (proactive, moments, ...)
+
+export interface ContextBudget {
+  provider: string;
+  model: string;
+  contextSize: number;
+  source: 'setting' | 'default';
+  reply: number; // Reserved for the model's answer
+  prompt: number; // Everything sent: system prompt plus history
+  memory: number; // Caps for system prompt sections
+  stickers: number;
+  lore: number;
+}
+
+const CJK = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/g;
+
+export function estimateTokens(text: string, providerId: string = 'openai') {
+  if (!text) return 0;
+  const ratio = TOKEN_RATIOS[providerId] || TOKEN_RATIOS.openai;
+  const cjk = (text.match(CJK) || []).length;
+  const rest = text.length - cjk;
+  return Math.ceil(cjk * ratio.tokensPerCjk + rest / ratio.charsPerToken);
+}
+
+export function countMessageTokens(messages: any[], providerId?: string) {
+  return messages.reduce((sum, msg) => {
+    const content = typeof msg.content === 'string' ? msg.content : JSON.stringify(msg.content);
+    return sum + MESSAGE_OVERHEAD + estimateTokens(content, providerId);
+  }, 0);
+}
+
+// `context_sizes` setting: JSON object of model name -> context window in tokens
+export function parseContextSizes(value: any): Record<string, number> {
+  const raw = typeof value === 'string' ? (value ? JSON.parse(value) : {}) : (value || {});
+  if (typeof raw !== 'object' || Array.isArray(raw)) throw new Error(t('invalid_context_sizes'));
+  const sizes: Record<string, number> = {};
+  for (const [model, size] of Object.entries(raw)) {
+    const n = Number(size);
+    if (!Number.isFinite(n) || n < 512) throw new Error(t('invalid_context_size', { model, size }));
+    sizes[model] = Math.floor(n);
+  }
+  return sizes;
+}
+
+export function defaultContextSize(providerId: string, model: string) {
+  if (PROVIDER_CONTEXT_SIZES[providerId]) return PROVIDER_CONTEXT_SIZES[providerId];
+  const match = MODEL_CONTEXT_SIZES.find(([pattern]) => pattern.test((model || '').toLowerCase()));
+  return match ? match[1] : DEFAULT_CONTEXT_SIZE;
+}
+
+// Context window of the configured chat model (per-model setting, otherwise the built-in table)
+export function getContextWindow(settings: any) {
+  const { provider, config } = resolveProvider(settings, 'chat');
+  const model = config.model || DEFAULT_MODELS[provider.id]?.chat || '';
+  let overrides: Record<string, number> = {};
+  try {
+    overrides = parseContextSizes(settings.context_sizes);
+  } catch (e: any) {
+    console.warn("Ignoring invalid context_sizes setting:", e.message);
+  }
+  if (overrides[model]) return { provider: provider.id, model, size: overrides[model], source: 'setting' as const };
+  return { provider: provider.id, model, size: defaultContextSize(provider.id, model), source: 'default' as const };
+}
+
+export function planContext(settings: any): ContextBudget {
+  const window = getContextWindow(settings);
+  const reply = Math.min(REPLY_RESERVE, Math.floor(window.size / 4));
+  const prompt = window.size - reply;
+  return {
+    provider: window.provider,
+    model: window.model,
+    contextSize: window.size,
+    source: window.source,
+    reply,
+    prompt,
+    memory: Math.floor(prompt * MEMORY_SHARE),
+    stickers: Math.floor(prompt * STICKER_SHARE),
+    lore: Math.floor(prompt * LORE_SHARE)
+  };
+}
+
+// Keep leading items while they fit; memory lines and stickers are already ordered by importance
+export function trimToBudget(items: string[], budget: number, providerId: string, separator = '\n') {
+  const kept: string[] = [];
+  let used = 0;
+  for (const item of items) {
+    const cost = estimateTokens(item + separator, providerId);
+    if (used + cost > budget) break;
+    kept.push(item);
+    used += cost;
+  }
+  return { text: kept.join(separator), kept: kept.length, dropped: items.length - kept.length };
+}
+
+// System notices (failed replies, ...) are for the user, not the model
+export function recentMessages(chatId: string, limit: number) {
+  return db.prepare("SELECT * FROM messages WHERE character_id = ? AND type IS NOT 'system' ORDER BY timestamp DESC, id DESC LIMIT ?").all(chatId, limit) as any[];
+}
+
+// Take messages newest first until the budget runs out, then return them oldest first.
+// The newest message is always kept so the model sees what it is answering.
+export function fitHistory(newestFirst: any[], budget: number, count: (msg: any) => number) {
+  const included: any[] = [];
+  let tokens = 0;
+  for (const msg of newestFirst) {
+    const cost = count(msg);
+    if (included.length > 0 && tokens + cost > budget) break;
+    included.push(msg);
+    tokens += cost;
+  }
+  return { included: included.reverse(), dropped: newestFirst.slice(included.length), tokens };
+}
@@ -0,0 +1,144 @@
+import db from './db';
+import { renderPrompt, fillHistory } from './templates';
+import { getChatPersona } from './personas';
+
+// Group director: after the user speaks, picks who talks next, round after round, so characters
+// can answer each other. 'heuristic' scores mentions, relationships and recent turns; 'llm' asks
+// the chat model (template use case 'director') and falls back to the heuristic.
+
+export const DIRECTOR_STRATEGIES = ['heuristic', 'llm'];
+export const DEFAULT_DIRECTOR_MAX_TURNS = 4;
+export const MAX_DIRECTOR_TURNS = 10;
+
+// One character's contribution in the current turn
+export interface Utterance {
+  speaker: any;
+  text: string;
+}
+
+export interface DirectorInput {
+  group: any;
+  members: any[];
+  userMessage: string;
+  turn: Utterance[]; // What characters said since the user spoke, in order
+  round: number; // 0 = first reply to the user
+}
+
+export interface DirectorDecision {
+  speaker: any | null; // null ends the turn
+  reason: string;
+}
+
+export function directorMaxTurns(group: any) {
+  const value = Number(group.director_max_turns);
+  if (!Number.isFinite(value) || value < 1) return DEFAULT_DIRECTOR_MAX_TURNS;
+  return Math.min(Math.floor(value), MAX_DIRECTOR_TURNS);
+}
+
+function related(aId: string, bId: string) {
+  return !!db.prepare('SELECT 1 FROM character_relationships WHERE (character_id = ? AND target_id = ?) OR (character_id = ? AND target_id = ?)')
+    .get(aId, bId, bId, aId);
+}
+
+export function pickNextHeuristic(input: DirectorInput): DirectorDecision {
+  const { group, members, userMessage, turn, round } = input;
+  const last = turn[turn.length - 1];
+  const lastText = last ? last.text : userMessage;
+
+  const spoken: Record<string, number> = {};
+  turn.forEach(u => { spoken[u.speaker.id] = (spoken[u.speaker.id] || 0) + 1; });
+  const recent = new Set((db.prepare("SELECT sender_id FROM messages WHERE character_id = ? AND sender_id != 'user' ORDER BY timestamp DESC LIMIT 10")
+    .all(group.id) as any[]).map(r => r.sender_id));
+
+  // Nobody answers themselves
+  const scored = members.filter(m => m.id !== last?.speaker.id).map(member => {
+    let score = Math.random(); // Tie breaker
+    const reasons: string[] = [];
+    const addressed = lastText.includes(member.name);
+    if (lastText.includes(`@${member.name}`)) {
+      score += 10;
+      reasons.push('mentioned');
+    } else if (lastText.includes(member.name)) {
+      score += 5;
+      reasons.push('named');
+    }
+    if (last && related(member.id, last.speaker.id)) {
+      score += 3;
+      reasons.push(`knows ${last.speaker.name}`);
+    }
+    if (!recent.has(member.id)) {
+      score += 1.5;
+      reasons.push('has been quiet');
+    }
+    score -= 2 * (spoken[member.id] || 0);
+    return { member, score, addressed, reasons };
+  }).sort((a, b) => b.score - a.score);
+
+  const best = scored[0];
+  if (!best) return { speaker: null, reason: 'nobody else to talk' };
+  if (round === 0) return { speaker: best.member, reason: best.reasons.join(', ') || 'random' };
+
+  // Later rounds only continue when someone was addressed, a question is open, or by a fading chance
+  if (best.addressed) return { speaker: best.member, reason: best.reasons.join(', ') };
+  if (/[?？]\s*$/.test(lastText) && Math.random() < 0.8) return { speaker: best.member, reason: `answers a question; ${best.reasons.join(', ')}` };
+  if (Math.random() < Math.pow(0.5, round)) return { speaker: best.member, reason: best.reasons.join(', ') || 'chimes in' };
+  return { speaker: null, reason: 'conversation settled' };
+}
+
+function parseDecision(raw: string) {
+  const match = (raw || '').match(/\{[\s\S]*\}/);
+  if (!match) throw new Error('Director returned no JSON');
+  return JSON.parse(match[0]);
+}
+
+// Variables of the 'director' template (also used by the template preview)
+export function buildDirectorVariables(input: DirectorInput, settings: any) {
+  const { group, members, turn, round } = input;
+  const userName = getChatPersona(group.id).name || 'Me';
+  const relationships = (db.prepare(`SELECT * FROM character_relationships WHERE character_id IN (${members.map(() => '?').join(',') || "''"})`)
+    .all(...members.map(m => m.id)) as any[])
+    .map(r => {
+      const from = members.find(m => m.id === r.character_id)?.name;
+      const to = r.target_id === 'user' ? userName : members.find(m => m.id === r.target_id)?.name;
+      return to ? `- ${from} -> ${to}: ${r.relationship}` : null;
+    })
+    .filter(Boolean)
+    .join('\n');
+  const vars = {
+    group: { name: group.name },
+    user: { name: userName },
+    members: members.map(m => `- ${m.name}: ${m.personality || m.bio || ''}`).join('\n'),
+    relationships: relationships || 'None defined.',
+    last_speaker: turn.length > 0 ? turn[turn.length - 1].speaker.name : userName,
+    round: String(round + 1),
+    max_rounds: String(directorMaxTurns(group))
+  };
+  return fillHistory('director', [group.id], vars, group.id, settings);
+}
+
+export async function pickNextWithLLM(input: DirectorInput, settings: any, generate: (prompt: string, settings: any) => Promise<string>): Promise<DirectorDecision> {
+  const { group, members, turn, round } = input;
+  const prompt = renderPrompt('director', [group.id], buildDirectorVariables(input, settings));
+  const decision = parseDecision(await generate(prompt, settings));
+  const next = typeof decision.next === 'string' ? decision.next.trim() : '';
+  if (!next || next.toLowerCase() === 'none') {
+    if (round === 0) throw new Error('Director picked nobody for the first reply');
+    return { speaker: null, reason: decision.reason || 'director ended the turn' };
+  }
+  const speaker = members.find(m => m.name === next || m.id === next);
+  if (!speaker) throw new Error(`Director picked an unknown member: ${next}`);
+  if (turn.length > 0 && turn[turn.length - 1].speaker.id === speaker.id) throw new Error('Director picked the last speaker again');
+  return { speaker, reason: decision.reason || 'director' };
+}
+
+export async function pickNextSpeaker(input: DirectorInput, settings: any, generate: (prompt: string, settings: any) => Promise<string>): Promise<DirectorDecision> {
+  if (input.round >= directorMaxTurns(input.group)) return { speaker: null, reason: 'turn limit reached' };
+  if (input.group.director_strategy === 'llm') {
+    try {
+      return await pickNextWithLLM(input, settings, generate);
+    } catch (e: any) {
+      console.error("Director Error:", e.message);
+    }
+  }
+  return pickNextHeuristic(input);
+}
@@ -0,0 +1,69 @@
+import type { Request, Response } from 'express';
+
+// Real-time event channel (Server-Sent Events on GET /api/events) so clients stop polling
+
+export type AppEventType =
+  | 'message.created'
+  | 'message.updated'
+  | 'message.deleted'
+  | 'message.read'
+  | 'moment.created'
+  | 'moment.updated'
+  | 'moment.liked'
+  | 'moment.unliked'
+  | 'comment.created'
+  | 'character.created'
+  | 'character.updated'
+  | 'character.deleted'
+  | 'persona.created'
+  | 'persona.updated'
+  | 'persona.deleted';
+
+export interface AppEvent {
+  id: number;
+  type: AppEventType;
+  data: any;
+  timestamp: string;
+}
+
+const HEARTBEAT_MS = 25 * 1000;
+const REPLAY_SIZE = 200; // Recent events kept for clients reconnecting with Last-Event-ID
+
+const clients = new Set<Response>();
+const recent: AppEvent[] = [];
+let nextId = 1;
+
+function write(res: Response, event: AppEvent) {
+  res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+}
+
+export function broadcast(type: AppEventType, data: any) {
+  const event: AppEvent = { id: nextId++, type, data, timestamp: new Date().toISOString() };
+  recent.push(event);
+  if (recent.length > REPLAY_SIZE) recent.shift();
+  for (const res of clients) {
+    write(res, event);
+  }
+  return event;
+}
+
+// Express handler: keeps the response open and streams every broadcast event
+export function subscribe(req: Request, res: Response) {
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders();
+
+  // Replay what a reconnecting client missed
+  const lastId = Number(req.headers['last-event-id'] || req.query.lastEventId || 0);
+  if (lastId) {
+    recent.filter(e => e.id > lastId).forEach(e => write(res, e));
+  }
+
+  clients.add(res);
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    clients.delete(res);
+  });
+}
@@ -0,0 +1,161 @@
+import db from './db';
+
+// Cursor-paginated chat history and full-text search over messages and moment comments
+
+const DEFAULT_PAGE = 50;
+const MAX_PAGE = 200;
+const SNIPPET_RADIUS = 30; // Characters of context on each side of a search hit
+
+function clampLimit(limit: any, fallback: number) {
+  const n = Number(limit);
+  if (!Number.isFinite(n) || n <= 0) return fallback;
+  return Math.min(Math.floor(n), MAX_PAGE);
+}
+
+// A cursor is a message id, or otherwise a timestamp. Messages are ordered by (timestamp, id).
+function resolveCursor(chatId: string, cursor: string, edge: 'before' | 'after') {
+  const msg = db.prepare('SELECT id, timestamp FROM messages WHERE id = ? AND character_id = ?').get(cursor, chatId) as any;
+  if (msg) return { timestamp: msg.timestamp, id: msg.id };
+  // Plain timestamps exclude every message at exactly that time
+  return { timestamp: cursor, id: edge === 'before' ? '' : '\uffff' };
+}
+
+function pageBefore(chatId: string, cursor: { timestamp: string; id: string } | null, limit: number, inclusive = false) {
+  const op = inclusive ? '<=' : '<';
+  const rows = cursor
+    ? db.prepare(`SELECT * FROM messages WHERE character_id = ? AND (timestamp < ? OR (timestamp = ? AND id ${op} ?))
+        ORDER BY timestamp DESC, id DESC LIMIT ?`).all(chatId, cursor.timestamp, cursor.timestamp, cursor.id, limit + 1) as any[]
+    : db.prepare('SELECT * FROM messages WHERE character_id = ? ORDER BY timestamp DESC, id DESC LIMIT ?').all(chatId, limit + 1) as any[];
+  const hasMore = rows.length > limit;
+  return { rows: rows.slice(0, limit).reverse(), hasMore };
+}
+
+function pageAfter(chatId: string, cursor: { timestamp: string; id: string }, limit: number) {
+  const rows = db.prepare(`SELECT * FROM messages WHERE character_id = ? AND (timestamp > ? OR (timestamp = ? AND id > ?))
+    ORDER BY timestamp ASC, id ASC LIMIT ?`).all(chatId, cursor.timestamp, cursor.timestamp, cursor.id, limit + 1) as any[];
+  return { rows: rows.slice(0, limit), hasMore: rows.length > limit };
+}
+
+// One page of a chat. Without a cursor it is the newest page; `around` centres the page on a
+// message (e.g. a search hit). Use the first id as the next `before` and the last id as `after`.
+export function getMessagePage(chatId: string, options: { before?: string; after?: string; around?: string; limit?: any }) {
+  const limit = clampLimit(options.limit, DEFAULT_PAGE);
+
+  if (options.around) {
+    const target = db.prepare('SELECT id, timestamp FROM messages WHERE id = ? AND character_id = ?').get(options.around, chatId) as any;
+    if (!target) throw new Error('Message not found');
+    const half = Math.ceil(limit / 2);
+    const older = pageBefore(chatId, target, half, true);
+    const newer = pageAfter(chatId, target, limit - older.rows.length);
+    return { messages: [...older.rows, ...newer.rows], has_more_before: older.hasMore, has_more_after: newer.hasMore };
+  }
+
+  if (options.after) {
+    const cursor = resolveCursor(chatId, options.after, 'after');
+    const { rows, hasMore } = pageAfter(chatId, cursor, limit);
+    return { messages: rows, has_more_before: pageBefore(chatId, cursor, 0, true).hasMore, has_more_after: hasMore };
+  }
+
+  const cursor = options.before ? resolveCursor(chatId, options.before, 'before') : null;
+  const { rows, hasMore } = pageBefore(chatId, cursor, limit);
+  return { messages: rows, has_more_before: hasMore, has_more_after: !!cursor && pageAfter(chatId, cursor, 0).hasMore };
+}
+
+// Trigram MATCH needs at least 3 characters; shorter terms fall back to a substring scan of the index
+function buildMatch(query: string) {
+  const terms = query.split(/\s+/).filter(Boolean);
+  const long = terms.filter(t => [...t].length >= 3);
+  const short = terms.filter(t => [...t].length < 3);
+
+  const clauses: string[] = [];
+  const params: any[] = [];
+  if (long.length > 0) {
+    clauses.push('f.content MATCH ?');
+    params.push(long.map(t => `"${t.replace(/"/g, '""')}"`).join(' AND '));
+  }
+  for (const term of short) {
+    clauses.push(`instr(lower(f.content), lower(?)) > 0`);
+    params.push(term);
+  }
+  return { where: clauses.join(' AND '), params, terms };
+}
+
+// Text around the first matching term, with the hit wrapped in [ ]
+function makeSnippet(content: string, terms: string[]) {
+  const text = content || '';
+  const lower = text.toLowerCase();
+  let index = -1;
+  let length = 0;
+  for (const term of terms) {
+    const i = lower.indexOf(term.toLowerCase());
+    if (i !== -1 && (index === -1 || i < index)) {
+      index = i;
+      length = term.length;
+    }
+  }
+  if (index === -1) return text.slice(0, SNIPPET_RADIUS * 2);
+
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + length + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${text.slice(start, index)}[${text.slice(index, index + length)}]${text.slice(index + length, end)}${end < text.length ? '…' : ''}`;
+}
+
+// Search messages (optionally in one chat) and moment comments, newest first.
+// Message hits carry chat_id + id so the client can open the chat with ?around=<id>.
+export function search(query: string, options: { chatId?: string; type?: string; limit?: any; offset?: any }) {
+  const q = (query || '').trim();
+  if (!q) return { query: q, results: [], has_more: false };
+  const limit = clampLimit(options.limit, 20);
+  const offset = Math.max(0, Number(options.offset) || 0);
+  const type = options.chatId ? 'messages' : (options.type || 'all');
+
+  const results: any[] = [];
+
+  if (type === 'all' || type === 'messages') {
+    const { where, params, terms } = buildMatch(q);
+    const chatFilter = options.chatId ? 'AND f.chat_id = ?' : '';
+    const rows = db.prepare(`
+      SELECT m.*, c.name AS chat_name, c.is_group AS chat_is_group FROM messages_fts f
+      JOIN messages m ON m.id = f.message_id
+      LEFT JOIN characters c ON c.id = m.character_id
+      WHERE ${where} ${chatFilter}
+      ORDER BY m.timestamp DESC LIMIT ?
+    `).all(...params, ...(options.chatId ? [options.chatId] : []), offset + limit + 1) as any[];
+    rows.forEach(m => results.push({
+      kind: 'message',
+      id: m.id,
+      chat_id: m.character_id,
+      chat_name: m.chat_name,
+      chat_is_group: !!m.chat_is_group,
+      sender_id: m.sender_id,
+      sender_name: m.sender_name,
+      timestamp: m.timestamp,
+      snippet: makeSnippet(m.content, terms)
+    }));
+  }
+
+  if (type === 'all' || type === 'comments') {
+    const { where, params, terms } = buildMatch(q);
+    const rows = db.prepare(`
+      SELECT mc.*, mo.content AS moment_content, mo.character_id AS moment_author_id FROM comments_fts f
+      JOIN moment_comments mc ON mc.id = f.comment_id
+      LEFT JOIN moments mo ON mo.id = mc.moment_id
+      WHERE ${where}
+      ORDER BY mc.timestamp DESC LIMIT ?
+    `).all(...params, offset + limit + 1) as any[];
+    rows.forEach(c => results.push({
+      kind: 'comment',
+      id: c.id,
+      moment_id: c.moment_id,
+      moment_author_id: c.moment_author_id,
+      moment_content: c.moment_content,
+      author_id: c.author_id,
+      author_name: c.author_name,
+      timestamp: c.timestamp,
+      snippet: makeSnippet(c.content, terms)
+    }));
+  }
+
+  results.sort((a, b) => (a.timestamp < b.timestamp ? 1 : a.timestamp > b.timestamp ? -1 : 0));
+  return { query: q, results: results.slice(offset, offset + limit), has_more: results.length > offset + limit };
+}
@@ -0,0 +1,145 @@
+// Reply language and localized server text. The reply language is set per character, per persona or
+// globally (setting `language`), the first one set wins; 'auto' follows the language the user writes
+// in. Server messages (errors, system notices) use the global language. No database access here:
+// api/chat.ts runs on its own.
+
+export const AUTO_LANGUAGE = 'auto';
+export const DEFAULT_LANGUAGE = 'zh-CN';
+
+// Code -> English name (used in prompts) and native label (shown in the UI)
+export const LANGUAGES: Record<string, { name: string; label: string }> = {
+  'zh-CN': { name: 'Simplified Chinese', label: '简体中文' },
+  'zh-TW': { name: 'Traditional Chinese', label: '繁體中文' },
+  'en': { name: 'English', label: 'English' },
+  'ja': { name: 'Japanese', label: '日本語' },
+  'ko': { name: 'Korean', label: '한국어' }
+};
+
+// Empty means "inherit from the next level"
+export function isLanguageSetting(value: any) {
+  return value === '' || value === null || value === AUTO_LANGUAGE || !!LANGUAGES[value];
+}
+
+export function languageName(code: string) {
+  return (LANGUAGES[code] || LANGUAGES[DEFAULT_LANGUAGE]).name;
+}
+
+// By script: kana before Han, since Japanese uses both
+export function detectLanguage(text: string): string | null {
+  const sample = (text || '').replace(/\[sticker:.*?\]|https?:\/\/\S+/g, '');
+  if (/[\u3040-\u30ff]/.test(sample)) return 'ja';
+  if (/[\uac00-\ud7af]/.test(sample)) return 'ko';
+  if (/[\u4e00-\u9fff]/.test(sample)) return 'zh-CN';
+  if (/[a-zA-Z]{2,}/.test(sample)) return 'en';
+  return null;
+}
+
+// `levels` from most to least specific; `userTexts` gives the user's recent messages, newest first
+export function resolveLanguage(levels: any[], userTexts: () => string[] = () => []) {
+  const setting = levels.find(l => l) || DEFAULT_LANGUAGE;
+  if (setting !== AUTO_LANGUAGE) return LANGUAGES[setting] ? setting : DEFAULT_LANGUAGE;
+  for (const text of userTexts()) {
+    const detected = detectLanguage(text);
+    if (detected) return detected;
+  }
+  return DEFAULT_LANGUAGE;
+}
+
+// --- Server messages ---
+
+let serverLanguage = DEFAULT_LANGUAGE;
+
+// The global `language` setting; 'auto' has no user to follow here, so it means the default
+export function setServerLanguage(code: string) {
+  serverLanguage = code && LANGUAGES[code] ? code : DEFAULT_LANGUAGE;
+}
+
+export function getServerLanguage() {
+  return serverLanguage;
+}
+
+// Keyed by base language (zh, en, ja); other languages get English
+const MESSAGES: Record<string, Record<string, string>> = {
+  // {language} is the English name of the reply language, {label} its native name (zh-TW gets 繁體中文)
+  vision_prompt: {
+    zh: '请详细描述这张图片的内容，包括主体、动作、环境、氛围等。如果是表情包，请解释其含义。请用{label}回答。',
+    en: 'Describe this image in detail, including the subject, actions, setting and mood. If it is a sticker, explain what it means. Answer in {language}.',
+    ja: 'この画像の内容を、主体・動作・環境・雰囲気などを含めて詳しく説明してください。スタンプの場合はその意味も説明してください。{label}で答えてください。'
+  },
+  no_description: { zh: '无描述', en: 'no description', ja: '説明なし' },
+  system_sender: { zh: '系统', en: 'System', ja: 'システム' },
+  reply_failed: { zh: '{name} 暂时无法回复：{error}', en: '{name} cannot reply right now: {error}', ja: '{name} は今返信できません：{error}' },
+  connection_ok: { zh: '连接成功！', en: 'Connected!', ja: '接続に成功しました！' },
+  connection_ok_image: { zh: '连接成功！已生成测试图片。', en: 'Connected! A test image was generated.', ja: '接続に成功しました！テスト画像を生成しました。' },
+  connection_no_image: { zh: '连接失败：未返回图片', en: 'Connection failed: no image returned', ja: '接続に失敗しました：画像が返されませんでした' },
+  no_image_support: { zh: '{provider} 不支持生图', en: '{provider} cannot generate images', ja: '{provider} は画像生成に対応していません' },
+  missing_choices: { zh: 'API 响应格式错误: 缺少 choices', en: 'Malformed API response: missing choices', ja: 'API レスポンスの形式エラー: choices がありません' },
+  unknown_error: { zh: '未知错误', en: 'Unknown error', ja: '不明なエラー' },
+  image_bad_response: {
+    zh: '上游服务器错误 (Bad Response). 请确保模型名称 "{model}" 正确，且 API Key 余额充足并支持生图。',
+    en: 'Upstream server error (Bad Response). Check that the model name "{model}" is correct and that the API key has credit and supports image generation.',
+    ja: '上流サーバーエラー (Bad Response)。モデル名「{model}」が正しく、API キーの残高があり画像生成に対応しているか確認してください。'
+  },
+  timeout: { zh: '请求超时 ({seconds}s)', en: 'Request timed out ({seconds}s)', ja: 'リクエストがタイムアウトしました ({seconds}s)' },
+  missing_api_key: { zh: '缺少必要参数: API Key', en: 'Missing parameter: API Key', ja: '必須パラメータがありません: API Key' },
+  missing_api_url: { zh: '自定义OpenAI平台需要提供API接口地址', en: 'A custom OpenAI platform needs an API URL', ja: 'カスタム OpenAI プラットフォームには API URL が必要です' },
+  unsupported_platform: { zh: '不支持的模型平台', en: 'Unsupported model platform', ja: '対応していないモデルプラットフォームです' },
+  missing_model_or_messages: { zh: '缺少必要参数: model 或 messages', en: 'Missing parameter: model or messages', ja: '必須パラメータがありません: model または messages' },
+  internal_error: { zh: '内部服务器错误: {error}', en: 'Internal server error: {error}', ja: '内部サーバーエラー: {error}' },
+  upstream_unknown_error: { zh: '目标平台返回未知错误', en: 'The platform returned an unknown error', ja: 'プラットフォームが不明なエラーを返しました' },
+  forward_failed: { zh: '转发请求失败: {error}', en: 'Forwarding the request failed: {error}', ja: 'リクエストの転送に失敗しました: {error}' },
+  tool_unauthorized: { zh: '{name} 尝试调用未授权的工具 {tool}', en: '{name} tried to use the tool {tool} without permission', ja: '{name} が許可されていないツール {tool} を使おうとしました' },
+  tool_failed: { zh: '{name} 调用「{tool}」失败：{error}', en: '{name} could not use "{tool}": {error}', ja: '{name} は「{tool}」を使えませんでした：{error}' },
+  tool_datetime: { zh: '{name} 查看了当前时间', en: '{name} checked the time', ja: '{name} が現在時刻を確認しました' },
+  tool_scheduled: { zh: '{name} 设定了一条定时消息（{time}）', en: '{name} scheduled a message ({time})', ja: '{name} がメッセージを予約しました（{time}）' },
+  tool_relationship: { zh: '{name} 更新了与{target}的关系：{relationship}', en: '{name} updated their relationship with {target}: {relationship}', ja: '{name} が{target}との関係を更新しました：{relationship}' },
+  tool_memory: { zh: '{name} 记住了：{content}', en: '{name} will remember: {content}', ja: '{name} が覚えました：{content}' },
+  tool_moment: { zh: '{name} 发了一条朋友圈：{content}', en: '{name} posted a moment: {content}', ja: '{name} がモーメントを投稿しました：{content}' },
+  tool_label_get_datetime: { zh: '查看时间', en: 'Check the time', ja: '時刻を確認' },
+  tool_label_schedule_message: { zh: '定时消息', en: 'Scheduled message', ja: '予約メッセージ' },
+  tool_label_update_relationship: { zh: '更新关系', en: 'Update relationship', ja: '関係を更新' },
+  tool_label_save_memory: { zh: '记住', en: 'Remember', ja: '覚える' },
+  tool_label_post_moment: { zh: '发朋友圈', en: 'Post a moment', ja: 'モーメントを投稿' },
+  the_user: { zh: '用户', en: 'the user', ja: 'ユーザー' },
+  voice_untranscribed: { zh: '[语音消息，未能转写]', en: '[Voice message, could not be transcribed]', ja: '[ボイスメッセージ、文字起こしできませんでした]' },
+  no_audio_support: { zh: '{provider} 不支持语音', en: '{provider} does not support audio', ja: '{provider} は音声に対応していません' },
+  budget_paused: { zh: '后台生成已暂停：{reason}', en: 'Background generation paused: {reason}', ja: 'バックグラウンド生成を一時停止しました：{reason}' },
+  daily_cost_budget: { zh: '已达到每日费用预算 ${limit}', en: 'daily cost budget of ${limit} reached', ja: '1日の費用予算 ${limit} に達しました' },
+  daily_token_budget: { zh: '已达到每日 token 预算 {limit}', en: 'daily token budget of {limit} reached', ja: '1日のトークン予算 {limit} に達しました' },
+  unknown_tool: { zh: '未知工具：{name}', en: 'Unknown tool: {name}', ja: '不明なツール：{name}' },
+  field_required: { zh: '缺少 {field}', en: '{field} is required', ja: '{field} は必須です' },
+  unknown_character: { zh: '未知角色：{name}', en: 'Unknown character: {name}', ja: '不明なキャラクター：{name}' },
+  secret_write_only: { zh: '{key} 只能写入：请使用 PUT /api/settings/secrets', en: '{key} is write-only: use PUT /api/settings/secrets', ja: '{key} は書き込み専用です：PUT /api/settings/secrets を使ってください' },
+  invalid_reply_format: { zh: 'reply_format 必须是 "markers" 或 "json"', en: 'reply_format must be "markers" or "json"', ja: 'reply_format は "markers" か "json" である必要があります' },
+  unknown_language: { zh: '未知语言：{language}', en: 'Unknown language: {language}', ja: '不明な言語：{language}' },
+  invalid_choice: { zh: '{field} 必须是以下之一：{choices}', en: '{field} must be one of {choices}', ja: '{field} は次のいずれかである必要があります：{choices}' },
+  invalid_voice_mode: { zh: 'voice_mode 必须是以下之一：{modes}', en: 'voice_mode must be one of {modes}', ja: 'voice_mode は次のいずれかである必要があります：{modes}' },
+  invalid_context_sizes: { zh: 'context_sizes 必须是 模型 -> token 数 的对象', en: 'context_sizes must be an object of model -> tokens', ja: 'context_sizes は モデル -> トークン数 のオブジェクトである必要があります' },
+  invalid_context_size: { zh: '{model} 的上下文大小无效：{size}', en: 'Invalid context size for {model}: {size}', ja: '{model} のコンテキストサイズが無効です：{size}' },
+  invalid_price_table: { zh: 'price_table 必须是 模型 -> 价格 的对象', en: 'price_table must be an object of model -> prices', ja: 'price_table は モデル -> 価格 のオブジェクトである必要があります' },
+  invalid_price: { zh: '{model} 的价格无效', en: 'Invalid price for {model}', ja: '{model} の価格が無効です' },
+  invalid_price_field: { zh: '{model} 的 {field} 价格无效：{value}', en: 'Invalid {field} price for {model}: {value}', ja: '{model} の {field} 価格が無効です：{value}' },
+  unknown_provider: { zh: '未知的模型平台：{id}', en: 'Unknown provider: {id}', ja: '不明なプロバイダー：{id}' },
+  fallbacks_not_array: { zh: '备用列表必须是数组', en: 'Fallbacks must be an array', ja: 'フォールバックは配列である必要があります' },
+  fallback_needs_provider: { zh: '每个备用项都需要 provider', en: 'Every fallback needs a provider', ja: 'すべてのフォールバックに provider が必要です' }
+};
+
+// Localized message with {param} placeholders, in the server language unless `language` is given
+export function t(key: string, params: Record<string, any> = {}, language: string = serverLanguage) {
+  const entry = MESSAGES[key];
+  if (!entry) return key;
+  const text = entry[language.split('-')[0]] ?? entry.en;
+  return text.replace(/\{(\w+)\}/g, (match, name) => (params[name] !== undefined ? String(params[name]) : match));
+}
+
+// Language of an incoming request without settings (api/chat.ts): body `language`, then Accept-Language
+export function requestLanguage(req: any) {
+  const candidates = [req.body?.language, ...String(req.headers?.['accept-language'] || '').split(',').map(l => l.split(';')[0].trim())];
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    if (LANGUAGES[candidate]) return candidate;
+    const base = Object.keys(LANGUAGES).find(code => code.split('-')[0] === candidate.split('-')[0]);
+    if (base) return base;
+  }
+  return DEFAULT_LANGUAGE;
+}
@@ -0,0 +1,226 @@
+import db from './db';
+import { v4 as uuidv4 } from 'uuid';
+import { ContextBudget, trimToBudget, recentMessages } from './context';
+
+// World info: books of lore entries that are injected into a system prompt only when one of their
+// keywords appears in the recent messages. Entries may be scoped to one character or group, and
+// go before or after the prompt. Import/export uses the Character Card V2 `character_book` shape.
+
+export const LORE_POSITIONS = ['before', 'after'];
+const DEFAULT_SCAN_DEPTH = 10; // Recent messages scanned for keywords (`lore_scan_depth` setting)
+const MAX_SCAN_DEPTH = 100;
+
+const ENTRY_FIELDS = ['title', 'keywords', 'content', 'priority', 'position', 'scope_id', 'constant', 'case_sensitive', 'enabled'];
+
+function parseKeywords(value: any): string[] {
+  const list = typeof value === 'string' ? (value.trim().startsWith('[') ? JSON.parse(value) : value.split(',')) : value;
+  if (!Array.isArray(list)) throw new Error('keywords must be an array of strings');
+  return list.map(k => String(k).trim()).filter(Boolean);
+}
+
+function toEntry(row: any) {
+  return row && { ...row, keywords: JSON.parse(row.keywords || '[]'), constant: !!row.constant, case_sensitive: !!row.case_sensitive, enabled: !!row.enabled };
+}
+
+// --- Books ---
+
+export function listLorebooks() {
+  return db.prepare(`
+    SELECT b.*, (SELECT COUNT(*) FROM lorebook_entries e WHERE e.lorebook_id = b.id) AS entry_count
+    FROM lorebooks b ORDER BY b.name
+  `).all().map((b: any) => ({ ...b, enabled: !!b.enabled }));
+}
+
+export function getLorebook(id: string) {
+  const book = db.prepare('SELECT * FROM lorebooks WHERE id = ?').get(id) as any;
+  return book && { ...book, enabled: !!book.enabled };
+}
+
+export function saveLorebook(id: string | null, fields: { name?: string; description?: string; enabled?: boolean }) {
+  const now = new Date().toISOString();
+  const existing = id ? getLorebook(id) : null;
+  if (id && !existing) return null;
+  const name = (fields.name ?? existing?.name ?? '').trim();
+  if (!name) throw new Error('Lorebook name is required');
+  const description = fields.description ?? existing?.description ?? '';
+  const enabled = (fields.enabled ?? existing?.enabled ?? true) ? 1 : 0;
+  if (existing) {
+    db.prepare('UPDATE lorebooks SET name = ?, description = ?, enabled = ?, updated_at = ? WHERE id = ?').run(name, description, enabled, now, id);
+    return getLorebook(id);
+  }
+  const newId = uuidv4();
+  db.prepare('INSERT INTO lorebooks (id, name, description, enabled, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)')
+    .run(newId, name, description, enabled, now, now);
+  return getLorebook(newId);
+}
+
+// Entries cascade
+export function deleteLorebook(id: string) {
+  return db.prepare('DELETE FROM lorebooks WHERE id = ?').run(id).changes > 0;
+}
+
+// --- Entries ---
+
+export function listEntries(lorebookId: string) {
+  return (db.prepare('SELECT * FROM lorebook_entries WHERE lorebook_id = ? ORDER BY priority DESC, title').all(lorebookId) as any[]).map(toEntry);
+}
+
+export function getEntry(lorebookId: string, id: string) {
+  return toEntry(db.prepare('SELECT * FROM lorebook_entries WHERE id = ? AND lorebook_id = ?').get(id, lorebookId));
+}
+
+export function saveEntry(lorebookId: string, id: string | null, fields: any) {
+  const existing = id ? getEntry(lorebookId, id) : null;
+  if (id && !existing) return null;
+  const entry: any = { ...(existing || { title: '', keywords: [], priority: 0, position: 'after', scope_id: null, constant: false, case_sensitive: false, enabled: true }) };
+  for (const field of ENTRY_FIELDS) {
+    if (fields[field] !== undefined) entry[field] = fields[field];
+  }
+
+  entry.keywords = parseKeywords(entry.keywords);
+  entry.content = String(entry.content ?? '').trim();
+  if (!entry.content) throw new Error('Entry content is required');
+  if (!LORE_POSITIONS.includes(entry.position)) throw new Error(`position must be one of ${LORE_POSITIONS.join(', ')}`);
+  if (!Number.isFinite(Number(entry.priority))) throw new Error('priority must be a number');
+  if (!entry.constant && entry.keywords.length === 0) throw new Error('Entries need keywords unless they are constant');
+  if (entry.scope_id && !db.prepare('SELECT 1 FROM characters WHERE id = ?').get(entry.scope_id)) throw new Error('scope_id must be a character or group');
+
+  const now = new Date().toISOString();
+  const values = [String(entry.title || ''), JSON.stringify(entry.keywords), entry.content, Math.floor(Number(entry.priority)), entry.position,
+    entry.scope_id || null, entry.constant ? 1 : 0, entry.case_sensitive ? 1 : 0, entry.enabled ? 1 : 0];
+  if (existing) {
+    db.prepare(`UPDATE lorebook_entries SET ${ENTRY_FIELDS.map(f => `${f} = ?`).join(', ')}, updated_at = ? WHERE id = ?`).run(...values, now, id);
+    return getEntry(lorebookId, id);
+  }
+  const newId = uuidv4();
+  db.prepare(`INSERT INTO lorebook_entries (id, lorebook_id, ${ENTRY_FIELDS.join(', ')}, created_at, updated_at)
+    VALUES (?, ?, ${ENTRY_FIELDS.map(() => '?').join(', ')}, ?, ?)`).run(newId, lorebookId, ...values, now, now);
+  return getEntry(lorebookId, newId);
+}
+
+export function deleteEntry(lorebookId: string, id: string) {
+  return db.prepare('DELETE FROM lorebook_entries WHERE id = ? AND lorebook_id = ?').run(id, lorebookId).changes > 0;
+}
+
+// --- Matching ---
+
+// Keywords match as substrings (Chinese has no word boundaries); "/pattern/flags" is a regular expression
+function keywordMatches(keyword: string, text: string, caseSensitive: boolean) {
+  const regex = keyword.match(/^\/(.+)\/([a-z]*)$/);
+  if (regex) {
+    try {
+      return new RegExp(regex[1], regex[2]).test(text);
+    } catch (e) {
+      return false;
+    }
+  }
+  return caseSensitive ? text.includes(keyword) : text.toLowerCase().includes(keyword.toLowerCase());
+}
+
+// Enabled entries of enabled books, global or scoped to one of `scopeIds`, whose keywords appear in
+// `texts` (constant entries always match), highest priority first
+export function matchEntries(scopeIds: string[], texts: string[]) {
+  const rows = db.prepare(`
+    SELECT e.* FROM lorebook_entries e JOIN lorebooks b ON b.id = e.lorebook_id
+    WHERE b.enabled = 1 AND e.enabled = 1 AND (e.scope_id IS NULL OR e.scope_id IN (${scopeIds.map(() => '?').join(',') || "''"}))
+    ORDER BY e.priority DESC, e.created_at
+  `).all(...scopeIds) as any[];
+  const text = texts.filter(Boolean).join('\n');
+  return rows.map(toEntry).filter(e => e.constant || e.keywords.some((k: string) => keywordMatches(k, text, e.case_sensitive)));
+}
+
+export function scanDepth(settings: any) {
+  const n = Math.floor(Number(settings.lore_scan_depth));
+  return Number.isFinite(n) && n > 0 ? Math.min(n, MAX_SCAN_DEPTH) : DEFAULT_SCAN_DEPTH;
+}
+
+// Lore for one prompt: matching entries cut to the budget's lore share (by priority), split by position.
+// `extraText` is scanned too (e.g. the scenario description of the current turn).
+export function buildLore(scopeIds: string[], chatId: string, settings: any, budget: ContextBudget, extraText: string = '') {
+  const texts = recentMessages(chatId, scanDepth(settings)).map(m => m.content);
+  const matched = matchEntries(Array.from(new Set(scopeIds)), [...texts, extraText]);
+  const { kept } = trimToBudget(matched.map(e => e.content), budget.lore, budget.provider, '\n\n');
+  const included = matched.slice(0, kept);
+  const section = (position: string) => included.filter(e => e.position === position).map(e => e.content).join('\n\n');
+  return {
+    before: section('before'),
+    after: section('after'),
+    entries: included.map(e => ({ id: e.id, title: e.title, lorebook_id: e.lorebook_id, position: e.position })),
+    dropped: matched.length - kept
+  };
+}
+
+export function injectLore(prompt: string, lore: { before: string; after: string }) {
+  return [lore.before, prompt, lore.after].filter(Boolean).join('\n\n');
+}
+
+// --- Import / export (Character Card V2 character_book) ---
+
+// scope_id is not exported: ids mean nothing on another server
+function toBook(name: string, description: string, entries: any[]) {
+  return {
+    name,
+    description,
+    extensions: {},
+    entries: entries.map((e, i) => ({
+      id: i + 1,
+      keys: e.keywords,
+      content: e.content,
+      extensions: {},
+      enabled: e.enabled,
+      insertion_order: e.priority,
+      case_sensitive: e.case_sensitive,
+      name: e.title,
+      priority: e.priority,
+      comment: e.title,
+      constant: e.constant,
+      position: e.position === 'before' ? 'before_char' : 'after_char'
+    }))
+  };
+}
+
+export function exportLorebook(id: string) {
+  const book = getLorebook(id);
+  if (!book) return null;
+  return toBook(book.name, book.description || '', listEntries(id));
+}
+
+// Entries scoped to one character across all books, for the character_book of its card
+export function exportScopedLore(scopeId: string, name: string) {
+  const entries = (db.prepare('SELECT * FROM lorebook_entries WHERE scope_id = ? ORDER BY priority DESC, title').all(scopeId) as any[]).map(toEntry);
+  return entries.length > 0 ? toBook(name, '', entries) : undefined;
+}
+
+// Accepts a character_book, or a SillyTavern world info file ({ entries: { uid: { key, content, order, ... } } }).
+// Entries are scoped to `scopeId` when given (card imports); invalid entries are skipped and counted.
+export function importLorebook(raw: any, scopeId: string | null = null, fallbackName: string = 'Imported lorebook') {
+  if (!raw || typeof raw !== 'object' || !raw.entries) throw new Error('Not a lorebook: missing entries');
+  const rawEntries: any[] = Array.isArray(raw.entries) ? raw.entries : Object.values(raw.entries);
+
+  const save = db.transaction(() => {
+    const book = saveLorebook(null, { name: raw.name || fallbackName, description: raw.description || '', enabled: true });
+    let skipped = 0;
+    for (const item of rawEntries) {
+      const keywords = item.keys ?? item.key ?? [];
+      const position = item.position === 'before_char' || item.position === 0 ? 'before' : 'after';
+      const fields = {
+        title: item.name || item.comment || '',
+        keywords: Array.isArray(keywords) ? keywords : parseKeywords(keywords),
+        content: item.content,
+        priority: Number(item.priority ?? item.insertion_order ?? item.order) || 0,
+        position,
+        scope_id: scopeId,
+        constant: !!item.constant,
+        case_sensitive: !!(item.case_sensitive ?? item.caseSensitive),
+        enabled: item.enabled !== undefined ? !!item.enabled : !item.disable
+      };
+      try {
+        saveEntry(book.id, null, fields);
+      } catch (e) {
+        skipped++;
+      }
+    }
+    return { book, imported: rawEntries.length - skipped, skipped };
+  });
+  return save();
+}
@@ -0,0 +1,131 @@
+import db from './db';
+import crypto from 'crypto';
+import path from 'path';
+import fs from 'fs';
+import { isPng, decodePng, encodePng, fitWithin } from './png';
+
+// Content-addressed media store. Files live under data/media/<first 2 hex chars>/<sha256> and rows
+// reference them as `/media/<sha256>` instead of inline data URLs; identical uploads share one file.
+
+const MEDIA_DIR = path.join(process.cwd(), 'data', 'media');
+const THUMB_SIZE = 256; // Longest side of a thumbnail
+
+const MEDIA_REF = /^\/media\/([a-f0-9]{64})$/;
+const DATA_URL = /^data:([^;,]*)[^,]*;base64,(.*)$/s;
+
+// Media is served from the app's own origin, so only types a browser will not run as a page are
+// accepted: raster images, audio and video. SVG and HTML could carry scripts.
+const MEDIA_TYPES = /^(image\/(png|jpeg|gif|webp|avif|bmp)|audio\/[\w.+-]+|video\/[\w.+-]+)$/;
+
+export class MediaTypeError extends Error {
+  constructor(mime: string) {
+    super(`Unsupported media type: ${mime || 'unknown'} (images, audio or video only)`);
+    this.name = 'MediaTypeError';
+  }
+}
+
+// `image/png; charset=x` -> `image/png`
+function baseMime(mime: string) {
+  return (mime || '').split(';')[0].trim().toLowerCase();
+}
+
+export function isAllowedMime(mime: string) {
+  return MEDIA_TYPES.test(baseMime(mime));
+}
+
+function mediaPath(hash: string) {
+  return path.join(MEDIA_DIR, hash.slice(0, 2), hash);
+}
+
+// Throws MediaTypeError for anything but images, audio and video
+export function storeMedia(data: Buffer, mime: string) {
+  mime = baseMime(mime);
+  if (!isAllowedMime(mime)) throw new MediaTypeError(mime);
+  const hash = crypto.createHash('sha256').update(data).digest('hex');
+  const file = mediaPath(hash);
+  if (!fs.existsSync(file)) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, data);
+  }
+  db.prepare('INSERT OR IGNORE INTO media (hash, mime, size, created_at) VALUES (?, ?, ?, ?)')
+    .run(hash, mime, data.length, new Date().toISOString());
+  return `/media/${hash}`;
+}
+
+// Data URLs are moved into the store; anything else (http URLs, existing refs, text) passes through.
+// Throws MediaTypeError like storeMedia.
+export function storeDataUrl<T>(value: T): T | string {
+  if (typeof value !== 'string') return value;
+  const match = value.match(DATA_URL);
+  if (!match) return value;
+  return storeMedia(Buffer.from(match[2], 'base64'), match[1]);
+}
+
+export function isMediaRef(value: any) {
+  return typeof value === 'string' && MEDIA_REF.test(value);
+}
+
+export function getMedia(hash: string) {
+  const row = db.prepare('SELECT * FROM media WHERE hash = ?').get(hash) as any;
+  if (!row) return null;
+  const file = mediaPath(hash);
+  if (!fs.existsSync(file)) return null;
+  return { ...row, path: file };
+}
+
+export function readMedia(ref: string) {
+  const match = (ref || '').match(MEDIA_REF);
+  const media = match && getMedia(match[1]);
+  if (!media) return null;
+  return { mime: media.mime as string, data: fs.readFileSync(media.path) };
+}
+
+// Thumbnail of an image as a stored media row: a PNG no larger than THUMB_SIZE, kept under its own
+// hash and remembered in media.thumb_hash. Only PNGs can be decoded without an image library, so
+// JPEG, GIF and WebP images, PNGs it cannot decode and non-images are their own thumbnail.
+export function getThumbnail(media: { hash: string; mime: string; thumb_hash?: string | null; path: string }) {
+  if (media.mime !== 'image/png') return media;
+  if (media.thumb_hash) return getMedia(media.thumb_hash) || media;
+
+  const data = fs.readFileSync(media.path);
+  if (!isPng(data)) return media;
+  let thumbHash = media.hash;
+  try {
+    const image = decodePng(data);
+    const thumb = fitWithin(image, THUMB_SIZE);
+    if (thumb !== image) thumbHash = storeMedia(encodePng(thumb), 'image/png').slice('/media/'.length);
+  } catch (e) {
+    console.error("Thumbnail Error:", e);
+    return media;
+  }
+  db.prepare('UPDATE media SET thumb_hash = ? WHERE hash = ?').run(thumbHash, media.hash);
+  db.prepare('UPDATE media SET thumb_hash = ? WHERE hash = ? AND thumb_hash IS NULL').run(thumbHash, thumbHash);
+  return getMedia(thumbHash) || media;
+}
+
+// Providers and card exports need the bytes inline
+export function toDataUrl(value: string) {
+  const media = isMediaRef(value) ? readMedia(value) : null;
+  if (!media) return value;
+  return `data:${media.mime};base64,${media.data.toString('base64')}`;
+}
+
+// Backups carry the referenced files inline: { [hash]: { mime, data (base64) } }
+export function exportMedia() {
+  const media: Record<string, { mime: string; data: string }> = {};
+  for (const row of db.prepare('SELECT hash, mime FROM media').all() as any[]) {
+    const file = mediaPath(row.hash);
+    if (fs.existsSync(file)) media[row.hash] = { mime: row.mime, data: fs.readFileSync(file).toString('base64') };
+  }
+  return media;
+}
+
+export function importMedia(media: Record<string, { mime: string; data: string }> | undefined) {
+  let count = 0;
+  for (const entry of Object.values(media || {})) {
+    if (!entry?.data || !isAllowedMime(entry.mime)) continue;
+    storeMedia(Buffer.from(entry.data, 'base64'), entry.mime);
+    count++;
+  }
+  return count;
+}
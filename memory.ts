@@ -0,0 +1,131 @@
+import db from './db';
+import { v4 as uuidv4 } from 'uuid';
+import { DEFAULT_LANGUAGE, languageName } from './language';
+
+// Long-term memory: a rolling conversation summary plus extracted facts per chat owner
+// (a character id for private chats, a group id for group chats)
+
+const SUMMARY_THRESHOLD = 10; // New messages needed before the summary is refreshed
+const SUMMARY_BATCH = 40; // Max messages folded into the summary per update
+const MAX_FACTS_IN_PROMPT = 20;
+
+const updating = new Set<string>();
+
+export function getMemories(ownerId: string) {
+  return db.prepare('SELECT * FROM memories WHERE owner_id = ? ORDER BY pinned DESC, kind DESC, updated_at DESC').all(ownerId) as any[];
+}
+
+export function createMemory(ownerId: string, kind: string, content: string, pinned: boolean, source: string = 'manual') {
+  const id = uuidv4();
+  const now = new Date().toISOString();
+  db.prepare('INSERT INTO memories (id, owner_id, kind, content, pinned, source, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)')
+    .run(id, ownerId, kind, content, pinned ? 1 : 0, source, now, now);
+  return db.prepare('SELECT * FROM memories WHERE id = ?').get(id) as any;
+}
+
+// Build the memory section for a system prompt from one or more owners (e.g. the character and its group)
+export function buildMemoryContext(ownerIds: string[]) {
+  const lines: string[] = [];
+  for (const ownerId of ownerIds) {
+    const pinned = db.prepare("SELECT content FROM memories WHERE owner_id = ? AND pinned = 1 ORDER BY updated_at DESC").all(ownerId) as any[];
+    const summary = db.prepare("SELECT content FROM memories WHERE owner_id = ? AND kind = 'summary' AND pinned = 0 ORDER BY updated_at DESC LIMIT 1").get(ownerId) as any;
+    const facts = db.prepare("SELECT content FROM memories WHERE owner_id = ? AND kind = 'fact' AND pinned = 0 ORDER BY updated_at DESC LIMIT ?").all(ownerId, MAX_FACTS_IN_PROMPT) as any[];
+
+    pinned.forEach(m => lines.push(`- (Important) ${m.content}`));
+    if (summary) lines.push(`- Story so far: ${summary.content}`);
+    facts.forEach(m => lines.push(`- ${m.content}`));
+  }
+  return lines.join('\n');
+}
+
+// Fold new messages of a chat into its rolling summary and extract new facts about the user.
+// Runs in the background; `generate` sends a single prompt to whichever chat model is configured.
+// Memories are written in `language`, the reply language of the chat. A backlog longer than
+// SUMMARY_BATCH is folded in batches, oldest first, until what is left is below the threshold.
+export async function updateMemories(ownerId: string, generate: (prompt: string) => Promise<string>, force: boolean = false, language: string = DEFAULT_LANGUAGE) {
+  if (updating.has(ownerId)) return false;
+  updating.add(ownerId);
+  try {
+    let updated = false;
+    for (;;) {
+      const advanced = await foldBatch(ownerId, generate, force, language);
+      if (advanced === null) break;
+      updated = true;
+      if (!advanced) break;
+    }
+    return updated;
+  } finally {
+    updating.delete(ownerId);
+  }
+}
+
+// One batch of the messages after covered_until. Null when there was nothing (or too little) to fold,
+// otherwise whether covered_until moved on.
+async function foldBatch(ownerId: string, generate: (prompt: string) => Promise<string>, force: boolean, language: string) {
+  const summaryRow = db.prepare("SELECT * FROM memories WHERE owner_id = ? AND kind = 'summary' ORDER BY updated_at DESC LIMIT 1").get(ownerId) as any;
+  const coveredUntil = summaryRow?.covered_until || '';
+
+  // One extra row shows whether the batch would end between messages sharing a timestamp; covered_until
+  // is a timestamp, so those are left for the next batch (unless the whole batch shares it)
+  const pending = db.prepare("SELECT * FROM messages WHERE character_id = ? AND type IS NOT 'system' AND timestamp > ? ORDER BY timestamp ASC LIMIT ?")
+    .all(ownerId, coveredUntil, SUMMARY_BATCH + 1) as any[];
+  let newMessages = pending.slice(0, SUMMARY_BATCH);
+  if (pending.length > SUMMARY_BATCH) {
+    const whole = newMessages.filter(m => m.timestamp !== pending[SUMMARY_BATCH].timestamp);
+    if (whole.length > 0) newMessages = whole;
+  }
+  if (newMessages.length === 0) return null;
+  if (!force && newMessages.length < SUMMARY_THRESHOLD) return null;
+
+  const knownFacts = db.prepare("SELECT content FROM memories WHERE owner_id = ? AND kind = 'fact'").all(ownerId) as any[];
+  const transcript = newMessages
+    .filter(m => m.type === 'text' || m.type === 'narration' || m.type === 'voice')
+    .map(m => `${m.sender_name}: ${m.content}`)
+    .join('\n');
+
+  const prompt = `You maintain the long-term memory of a roleplay chat.
+
+    Previous summary:
+    ${summaryRow?.content || '(none)'}
+
+    Facts already known:
+    ${knownFacts.map(f => `- ${f.content}`).join('\n') || '(none)'}
+
+    New messages:
+    ${transcript || '(only images or stickers)'}
+
+    Task:
+    1. Rewrite the summary so it covers the previous summary plus the new messages (max 150 words). Keep names, promises, plans and important events.
+    2. List NEW durable facts about the user or the relationship (names, preferences, birthdays, promises). Do not repeat known facts. Skip small talk.
+    Respond with JSON only: {"summary": "...", "facts": ["..."]}
+    - IMPORTANT: ALWAYS WRITE IN ${languageName(language)}.
+    `;
+
+  const raw = await generate(prompt);
+  const match = (raw || '').match(/\{[\s\S]*\}/);
+  if (!match) throw new Error('Memory update returned no JSON');
+  const parsed = JSON.parse(match[0]);
+
+  const now = new Date().toISOString();
+  const lastTs = newMessages[newMessages.length - 1].timestamp;
+
+  if (parsed.summary) {
+    if (summaryRow && !summaryRow.pinned) {
+      db.prepare('UPDATE memories SET content = ?, covered_until = ?, updated_at = ? WHERE id = ?')
+        .run(parsed.summary, lastTs, now, summaryRow.id);
+    } else if (summaryRow) {
+      // Pinned summaries are never overwritten; only advance the covered range
+      db.prepare('UPDATE memories SET covered_until = ? WHERE id = ?').run(lastTs, summaryRow.id);
+    } else {
+      const created = createMemory(ownerId, 'summary', parsed.summary, false, 'auto');
+      db.prepare('UPDATE memories SET covered_until = ? WHERE id = ?').run(lastTs, created.id);
+    }
+  }
+
+  const known = new Set(knownFacts.map(f => f.content));
+  for (const fact of Array.isArray(parsed.facts) ? parsed.facts : []) {
+    if (typeof fact !== 'string' || !fact.trim() || known.has(fact.trim())) continue;
+    createMemory(ownerId, 'fact', fact.trim(), false, 'auto');
+  }
+  return !!parsed.summary;
+}
@@ -0,0 +1,576 @@
+import type Database from 'better-sqlite3';
+import { v4 as uuidv4 } from 'uuid';
+import crypto from 'crypto';
+import path from 'path';
+import fs from 'fs';
+
+// Versioned schema migrations. Each migration runs once, inside a transaction, and is recorded in
+// schema_migrations. Append new migrations with the next version number; never edit applied ones.
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+function hasColumn(db: Database.Database, table: string, column: string) {
+  return (db.prepare(`PRAGMA table_info(${table})`).all() as any[]).some(c => c.name === column);
+}
+
+// Databases from before this framework already have some columns, so column additions are idempotent
+function addColumn(db: Database.Database, table: string, column: string, definition: string) {
+  if (!hasColumn(db, table, column)) db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+}
+
+// Columns that held data URLs before the media store: [table, key column, media column, rows]
+const DATA_URL_COLUMNS: [string, string, string, string][] = [
+  ['characters', 'id', 'avatar', '1'],
+  ['messages', 'id', 'content', "type IN ('image', 'sticker', 'voice')"],
+  ['messages', 'id', 'sender_avatar', '1'],
+  ['messages', 'id', 'audio', '1'],
+  ['stickers', 'id', 'url', '1'],
+  ['moment_images', 'id', 'url', '1'],
+  ['personas', 'id', 'avatar', '1']
+];
+const DATA_URL = /^data:(image\/(?:png|jpeg|gif|webp|avif|bmp)|audio\/[\w.+-]+|video\/[\w.+-]+)[^,]*;base64,(.*)$/s;
+
+// Move data URLs out of the media columns into data/media, the way media.ts stores uploads (it cannot
+// be imported here: it needs the db module, which runs these migrations). Types the media store
+// refuses stay as they are. Also run for backups from before the media store.
+export function moveDataUrls(db: Database.Database) {
+  const mediaDir = path.join(process.cwd(), 'data', 'media');
+  const report: Record<string, number> = {};
+  for (const [table, key, column, where] of DATA_URL_COLUMNS) {
+    const rows = db.prepare(`SELECT ${key} AS k, ${column} AS v FROM ${table} WHERE ${column} LIKE 'data:%;base64,%' AND ${where}`).all() as any[];
+    for (const { k, v } of rows) {
+      const match = v.match(DATA_URL);
+      if (!match) continue;
+      const data = Buffer.from(match[2], 'base64');
+      const hash = crypto.createHash('sha256').update(data).digest('hex');
+      const file = path.join(mediaDir, hash.slice(0, 2), hash);
+      if (!fs.existsSync(file)) {
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.writeFileSync(file, data);
+      }
+      db.prepare('INSERT OR IGNORE INTO media (hash, mime, size, created_at) VALUES (?, ?, ?, ?)')
+        .run(hash, match[1].toLowerCase(), data.length, new Date().toISOString());
+      db.prepare(`UPDATE ${table} SET ${column} = ? WHERE ${key} = ?`).run(`/media/${hash}`, k);
+      report[`${table}.${column}`] = (report[`${table}.${column}`] || 0) + 1;
+    }
+  }
+  return report;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial schema',
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS characters (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        avatar TEXT,
+        bio TEXT,
+        personality TEXT,
+        is_group INTEGER DEFAULT 0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS group_members (
+        group_id TEXT NOT NULL,
+        character_id TEXT NOT NULL,
+        PRIMARY KEY (group_id, character_id),
+        FOREIGN KEY(group_id) REFERENCES characters(id) ON DELETE CASCADE,
+        FOREIGN KEY(character_id) REFERENCES characters(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS messages (
+        id TEXT PRIMARY KEY,
+        character_id TEXT NOT NULL, -- Can be a user ID or group ID
+        sender_id TEXT, -- If group, which character sent it. If user, null or 'user'
+        sender_name TEXT, -- Cache for display
+        sender_avatar TEXT, -- Cache for display
+        content TEXT,
+        type TEXT DEFAULT 'text', -- 'text', 'image', 'sticker', 'narration'
+        timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY(character_id) REFERENCES characters(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS moments (
+        id TEXT PRIMARY KEY,
+        character_id TEXT NOT NULL,
+        content TEXT,
+        image TEXT,
+        timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
+        likes INTEGER DEFAULT 0,
+        FOREIGN KEY(character_id) REFERENCES characters(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS moment_comments (
+        id TEXT PRIMARY KEY,
+        moment_id TEXT NOT NULL,
+        author_id TEXT NOT NULL, -- 'user' or character_id
+        author_name TEXT,
+        content TEXT,
+        timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY(moment_id) REFERENCES moments(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS character_relationships (
+        character_id TEXT NOT NULL,
+        target_id TEXT NOT NULL, -- Another character_id or 'user'
+        relationship TEXT, -- e.g., 'Friend', 'Enemy', 'Lover'
+        description TEXT, -- Detailed context
+        PRIMARY KEY (character_id, target_id),
+        FOREIGN KEY(character_id) REFERENCES characters(id) ON DELETE CASCADE
+      );
+  
+      CREATE TABLE IF NOT EXISTS settings (
+        key TEXT PRIMARY KEY,
+        value TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS stickers (
+        id TEXT PRIMARY KEY,
+        owner_id TEXT NOT NULL, -- 'user' or character_id
+        url TEXT NOT NULL, -- Media reference (/media/<hash>) or URL
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS memories (
+        id TEXT PRIMARY KEY,
+        owner_id TEXT NOT NULL, -- character_id (private chat) or group_id (group chat)
+        kind TEXT DEFAULT 'fact', -- 'summary', 'fact'
+        content TEXT NOT NULL,
+        pinned INTEGER DEFAULT 0, -- Pinned memories are always injected and never overwritten
+        source TEXT DEFAULT 'auto', -- 'auto' (extracted), 'manual' or 'tool' (saved by the character)
+        covered_until TEXT, -- Summary only: timestamp of the last message folded in
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS prompt_templates (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        use_case TEXT NOT NULL, -- 'chat', 'proactive', 'nudge', 'comment_reply', 'comment', 'moment'
+        content TEXT NOT NULL, -- Prompt text with {{variables}}
+        is_default INTEGER DEFAULT 0, -- Global default for its use case
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS character_templates (
+        character_id TEXT NOT NULL, -- character_id or group_id
+        use_case TEXT NOT NULL,
+        template_id TEXT NOT NULL,
+        PRIMARY KEY (character_id, use_case),
+        FOREIGN KEY(character_id) REFERENCES characters(id) ON DELETE CASCADE,
+        FOREIGN KEY(template_id) REFERENCES prompt_templates(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS character_schedules (
+        character_id TEXT PRIMARY KEY,
+        enabled INTEGER, -- NULL columns fall back to defaults derived from reply_strategy / relationship
+        interval_seconds INTEGER,
+        probability REAL,
+        active_start TEXT, -- 'HH:MM'
+        active_end TEXT,
+        quiet_start TEXT, -- 'HH:MM', do not disturb
+        quiet_end TEXT,
+        max_unanswered INTEGER,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY(character_id) REFERENCES characters(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS media (
+        hash TEXT PRIMARY KEY, -- sha256 of the content, also the file name under data/media
+        mime TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS message_swipes (
+        id TEXT PRIMARY KEY,
+        chat_id TEXT NOT NULL, -- character_id or group_id
+        sender_id TEXT NOT NULL, -- Responder whose turn this is
+        reply_to TEXT, -- User message the turn answers (NULL when the character spoke first)
+        parts TEXT NOT NULL, -- JSON [{content, type, timestamp}]
+        active INTEGER DEFAULT 0, -- The active alternative is the one stored in messages
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY(chat_id) REFERENCES characters(id) ON DELETE CASCADE
+      );
+    `)
+  },
+  {
+    version: 2,
+    name: 'columns added before versioned migrations',
+    up: (db) => {
+      addColumn(db, 'characters', 'is_group', 'INTEGER DEFAULT 0');
+      addColumn(db, 'characters', 'gender', 'TEXT');
+      addColumn(db, 'characters', 'other_info', 'TEXT');
+      addColumn(db, 'characters', 'background', 'TEXT');
+      addColumn(db, 'characters', 'relationship', 'TEXT');
+      addColumn(db, 'characters', 'reply_mode', "TEXT DEFAULT 'natural'"); // natural, all, mentioned
+      addColumn(db, 'characters', 'reply_strategy', "TEXT DEFAULT 'normal'"); // active, normal, passive, manual
+      addColumn(db, 'messages', 'sender_id', 'TEXT');
+      addColumn(db, 'messages', 'sender_name', 'TEXT');
+      addColumn(db, 'messages', 'sender_avatar', 'TEXT');
+      addColumn(db, 'messages', 'status', "TEXT DEFAULT 'sent'");
+      addColumn(db, 'messages', 'source', 'TEXT'); // Where a message came from (e.g. 'proactive')
+      addColumn(db, 'messages', 'swipe_id', 'TEXT');
+      addColumn(db, 'messages', 'edited_at', 'TEXT');
+      addColumn(db, 'stickers', 'description', 'TEXT');
+    }
+  },
+  {
+    version: 3,
+    // The trigram tokenizer gives substring matches, which suits Chinese text without word
+    // boundaries. Triggers keep both indexes in sync with their tables.
+    name: 'full-text search',
+    up: (db) => {
+      db.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(content, message_id UNINDEXED, chat_id UNINDEXED, tokenize = 'trigram');
+        CREATE VIRTUAL TABLE IF NOT EXISTS comments_fts USING fts5(content, comment_id UNINDEXED, moment_id UNINDEXED, tokenize = 'trigram');
+
+        CREATE TRIGGER IF NOT EXISTS messages_fts_insert AFTER INSERT ON messages WHEN NEW.type IN ('text', 'narration') BEGIN
+          INSERT INTO messages_fts (content, message_id, chat_id) VALUES (NEW.content, NEW.id, NEW.character_id);
+        END;
+        CREATE TRIGGER IF NOT EXISTS messages_fts_delete AFTER DELETE ON messages BEGIN
+          DELETE FROM messages_fts WHERE message_id = OLD.id;
+        END;
+        CREATE TRIGGER IF NOT EXISTS messages_fts_update AFTER UPDATE OF content, type ON messages BEGIN
+          DELETE FROM messages_fts WHERE message_id = OLD.id;
+          INSERT INTO messages_fts (content, message_id, chat_id) SELECT NEW.content, NEW.id, NEW.character_id WHERE NEW.type IN ('text', 'narration');
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS comments_fts_insert AFTER INSERT ON moment_comments BEGIN
+          INSERT INTO comments_fts (content, comment_id, moment_id) VALUES (NEW.content, NEW.id, NEW.moment_id);
+        END;
+        CREATE TRIGGER IF NOT EXISTS comments_fts_delete AFTER DELETE ON moment_comments BEGIN
+          DELETE FROM comments_fts WHERE comment_id = OLD.id;
+        END;
+        CREATE TRIGGER IF NOT EXISTS comments_fts_update AFTER UPDATE OF content ON moment_comments BEGIN
+          DELETE FROM comments_fts WHERE comment_id = OLD.id;
+          INSERT INTO comments_fts (content, comment_id, moment_id) VALUES (NEW.content, NEW.id, NEW.moment_id);
+        END;
+      `);
+      // (Re)index rows that existed before the search tables
+      db.exec(`
+        DELETE FROM messages_fts;
+        INSERT INTO messages_fts (content, message_id, chat_id) SELECT content, id, character_id FROM messages WHERE type IN ('text', 'narration');
+        DELETE FROM comments_fts;
+        INSERT INTO comments_fts (content, comment_id, moment_id) SELECT content, id, moment_id FROM moment_comments;
+      `);
+    }
+  },
+  {
+    version: 4,
+    name: 'indexes for chat history and comments',
+    up: (db) => db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_messages_chat_timestamp ON messages(character_id, timestamp);
+      CREATE INDEX IF NOT EXISTS idx_moment_comments_moment ON moment_comments(moment_id);
+    `)
+  },
+  {
+    version: 5,
+    // User moments use character_id 'user', which has no characters row, so once foreign keys are
+    // enforced the old FOREIGN KEY would reject them. Deleting a character removes its moments explicitly.
+    name: 'moments without character foreign key',
+    up: (db) => db.exec(`
+      CREATE TABLE moments_new (
+        id TEXT PRIMARY KEY,
+        character_id TEXT NOT NULL, -- 'user' or character_id
+        content TEXT,
+        image TEXT,
+        timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
+        likes INTEGER DEFAULT 0
+      );
+      INSERT INTO moments_new (id, character_id, content, image, timestamp, likes)
+        SELECT id, character_id, content, image, timestamp, likes FROM moments;
+      DROP TABLE moments;
+      ALTER TABLE moments_new RENAME TO moments;
+      CREATE INDEX IF NOT EXISTS idx_moments_timestamp ON moments(timestamp);
+    `)
+  },
+  {
+    version: 6,
+    name: 'group director settings',
+    up: (db) => {
+      addColumn(db, 'characters', 'director_strategy', "TEXT DEFAULT 'heuristic'"); // heuristic, llm
+      addColumn(db, 'characters', 'director_max_turns', 'INTEGER DEFAULT 4'); // Character replies per user message
+    }
+  },
+  {
+    version: 7,
+    name: 'usage log',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS usage_log (
+          id TEXT PRIMARY KEY,
+          timestamp TEXT NOT NULL,
+          day TEXT NOT NULL, -- YYYY-MM-DD in the configured timezone, for daily budgets
+          provider TEXT,
+          model TEXT,
+          purpose TEXT NOT NULL, -- chat, proactive, nudge, moment, comment, comment_reply, memory, director, vision, image
+          character_id TEXT,
+          chat_id TEXT,
+          prompt_tokens INTEGER DEFAULT 0,
+          completion_tokens INTEGER DEFAULT 0,
+          images INTEGER DEFAULT 0,
+          estimated INTEGER DEFAULT 0, -- 1 when the API reported no usage and tokens were estimated
+          cost REAL DEFAULT 0,
+          latency_ms INTEGER,
+          success INTEGER DEFAULT 1,
+          error TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_usage_log_day ON usage_log(day);
+      `);
+    }
+  },
+  {
+    version: 8,
+    name: 'tool permissions and scheduled messages',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS character_tools (
+          character_id TEXT NOT NULL,
+          tool_name TEXT NOT NULL,
+          enabled INTEGER NOT NULL,
+          PRIMARY KEY (character_id, tool_name),
+          FOREIGN KEY(character_id) REFERENCES characters(id) ON DELETE CASCADE
+        );
+
+        CREATE TABLE IF NOT EXISTS scheduled_messages (
+          id TEXT PRIMARY KEY,
+          character_id TEXT NOT NULL, -- Sender
+          chat_id TEXT NOT NULL, -- character_id or group_id
+          content TEXT NOT NULL,
+          due_at TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          sent_at TEXT, -- NULL until delivered
+          FOREIGN KEY(character_id) REFERENCES characters(id) ON DELETE CASCADE,
+          FOREIGN KEY(chat_id) REFERENCES characters(id) ON DELETE CASCADE
+        );
+        CREATE INDEX IF NOT EXISTS idx_scheduled_messages_due ON scheduled_messages(sent_at, due_at);
+      `);
+    }
+  },
+  {
+    version: 9,
+    name: 'lorebooks',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS lorebooks (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          description TEXT,
+          enabled INTEGER DEFAULT 1,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS lorebook_entries (
+          id TEXT PRIMARY KEY,
+          lorebook_id TEXT NOT NULL,
+          title TEXT,
+          keywords TEXT NOT NULL, -- JSON array; "/pattern/flags" entries are regular expressions
+          content TEXT NOT NULL,
+          priority INTEGER DEFAULT 0, -- Higher first when the lore budget runs out
+          position TEXT DEFAULT 'after', -- before or after the system prompt
+          scope_id TEXT, -- NULL for every chat, else only for this character or group
+          constant INTEGER DEFAULT 0, -- Always injected, no keyword needed
+          case_sensitive INTEGER DEFAULT 0,
+          enabled INTEGER DEFAULT 1,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          FOREIGN KEY(lorebook_id) REFERENCES lorebooks(id) ON DELETE CASCADE,
+          FOREIGN KEY(scope_id) REFERENCES characters(id) ON DELETE CASCADE
+        );
+        CREATE INDEX IF NOT EXISTS idx_lorebook_entries_book ON lorebook_entries(lorebook_id);
+      `);
+    }
+  },
+  {
+    version: 10,
+    name: 'personas',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS personas (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          gender TEXT,
+          bio TEXT,
+          avatar TEXT,
+          background TEXT,
+          is_default INTEGER DEFAULT 0,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+      `);
+      addColumn(db, 'characters', 'persona_id', 'TEXT'); // NULL: the default persona
+      addColumn(db, 'messages', 'persona_id', 'TEXT'); // Persona of a user message
+
+      // The global user_* settings become the default persona; existing user messages were sent by it
+      const rows = db.prepare("SELECT key, value FROM settings WHERE key IN ('user_name', 'user_gender', 'user_bio', 'user_avatar', 'user_background')").all() as any[];
+      const user: any = {};
+      rows.forEach(r => user[r.key.slice(5)] = r.value);
+      const id = uuidv4();
+      const now = new Date().toISOString();
+      db.prepare('INSERT INTO personas (id, name, gender, bio, avatar, background, is_default, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, 1, ?, ?)')
+        .run(id, user.name || 'Me', user.gender || '', user.bio || '', user.avatar || '', user.background || '', now, now);
+      db.prepare("UPDATE messages SET persona_id = ? WHERE sender_id = 'user'").run(id);
+      db.prepare("DELETE FROM settings WHERE key IN ('user_name', 'user_gender', 'user_bio', 'user_avatar', 'user_background')").run();
+    }
+  },
+  {
+    version: 11,
+    name: 'auth sessions',
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS auth_sessions (
+        token_hash TEXT PRIMARY KEY, -- sha256 of the session token
+        created_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL
+      );
+    `)
+  },
+  {
+    version: 12,
+    name: 'reply language',
+    up: (db) => {
+      // '' inherits from the next level (character -> persona -> global `language` setting)
+      addColumn(db, 'characters', 'language', "TEXT DEFAULT ''");
+      addColumn(db, 'personas', 'language', "TEXT DEFAULT ''");
+      // Saved templates copied from the built-ins get the language variable instead of the fixed Chinese line
+      db.prepare("UPDATE prompt_templates SET content = replace(content, 'IN CHINESE (Simplified Chinese).', 'IN {{language}}.')").run();
+    }
+  },
+  {
+    version: 13,
+    name: 'voice messages',
+    up: (db) => {
+      // Voice messages keep their transcript in `content` and the recording here
+      addColumn(db, 'messages', 'audio', 'TEXT'); // Media reference
+      addColumn(db, 'messages', 'audio_duration', 'REAL'); // Seconds
+      addColumn(db, 'characters', 'voice_id', "TEXT DEFAULT ''"); // '' uses the endpoint's default voice
+      addColumn(db, 'characters', 'voice_speed', 'REAL DEFAULT 1');
+      addColumn(db, 'characters', 'voice_mode', "TEXT DEFAULT 'off'"); // 'off', 'always', 'mirror'
+      // Transcripts are searchable like text
+      db.exec(`
+        DROP TRIGGER IF EXISTS messages_fts_insert;
+        DROP TRIGGER IF EXISTS messages_fts_update;
+        CREATE TRIGGER messages_fts_insert AFTER INSERT ON messages WHEN NEW.type IN ('text', 'narration', 'voice') BEGIN
+          INSERT INTO messages_fts (content, message_id, chat_id) VALUES (NEW.content, NEW.id, NEW.character_id);
+        END;
+        CREATE TRIGGER messages_fts_update AFTER UPDATE OF content, type ON messages BEGIN
+          DELETE FROM messages_fts WHERE message_id = OLD.id;
+          INSERT INTO messages_fts (content, message_id, chat_id) SELECT NEW.content, NEW.id, NEW.character_id WHERE NEW.type IN ('text', 'narration', 'voice');
+        END;
+      `);
+    }
+  },
+  {
+    version: 14,
+    // Moments hold any number of images; the single moments.image column moves here
+    name: 'moment images',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS moment_images (
+          id TEXT PRIMARY KEY,
+          moment_id TEXT NOT NULL,
+          url TEXT NOT NULL, -- Media reference or external URL
+          prompt TEXT, -- Image generator prompt of generated images
+          position INTEGER DEFAULT 0,
+          FOREIGN KEY (moment_id) REFERENCES moments(id) ON DELETE CASCADE
+        );
+        CREATE INDEX IF NOT EXISTS idx_moment_images_moment ON moment_images(moment_id, position);
+      `);
+      const insert = db.prepare('INSERT INTO moment_images (id, moment_id, url, position) VALUES (?, ?, ?, 0)');
+      for (const moment of db.prepare("SELECT id, image FROM moments WHERE image IS NOT NULL AND image != ''").all() as any[]) {
+        insert.run(uuidv4(), moment.id, moment.image);
+      }
+      db.exec('ALTER TABLE moments DROP COLUMN image');
+    }
+  },
+  {
+    version: 15,
+    // One like per moment and liker instead of a counter. The old counts cannot be attributed to
+    // anyone, so they stay as moments.legacy_likes (read-only) and still add to the totals.
+    name: 'moment likes and visibility',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS moment_likes (
+          moment_id TEXT NOT NULL,
+          liker_id TEXT NOT NULL, -- 'user' or character_id
+          created_at TEXT NOT NULL,
+          PRIMARY KEY (moment_id, liker_id),
+          FOREIGN KEY (moment_id) REFERENCES moments(id) ON DELETE CASCADE
+        );
+        CREATE TABLE IF NOT EXISTS moment_audience (
+          moment_id TEXT NOT NULL,
+          character_id TEXT NOT NULL, -- Who visibility 'only' shows it to, or 'except' hides it from
+          PRIMARY KEY (moment_id, character_id),
+          FOREIGN KEY (moment_id) REFERENCES moments(id) ON DELETE CASCADE
+        );
+        ALTER TABLE moments RENAME COLUMN likes TO legacy_likes;
+      `);
+      addColumn(db, 'moments', 'visibility', "TEXT DEFAULT 'public'"); // 'public', 'only', 'except'
+    }
+  },
+  {
+    version: 16,
+    name: 'media thumbnails',
+    up: (db) => {
+      addColumn(db, 'media', 'thumb_hash', 'TEXT'); // Stored thumbnail (itself when small enough), made on first request
+    }
+  },
+  {
+    version: 17,
+    name: 'data URLs to media store',
+    up: (db) => {
+      const moved = moveDataUrls(db);
+      if (Object.keys(moved).length > 0) console.log('Moved data URLs into the media store:', moved);
+    }
+  }
+];
+
+// Apply pending migrations in order. Foreign keys stay off while migrating (table rebuilds must not
+// cascade deletes) and are switched on afterwards, so ON DELETE CASCADE works at runtime.
+export function runMigrations(db: Database.Database, migrations: Migration[] = MIGRATIONS) {
+  const versions = migrations.map(m => m.version);
+  if (new Set(versions).size !== versions.length) throw new Error('Duplicate migration version');
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    );
+  `);
+  const applied = new Set((db.prepare('SELECT version FROM schema_migrations').all() as any[]).map(r => r.version));
+  const pending = migrations.filter(m => !applied.has(m.version)).sort((a, b) => a.version - b.version);
+
+  db.pragma('foreign_keys = OFF');
+  try {
+    for (const migration of pending) {
+      try {
+        db.transaction(() => {
+          migration.up(db);
+          db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)')
+            .run(migration.version, migration.name, new Date().toISOString());
+        })();
+      } catch (e: any) {
+        throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${e.message}`);
+      }
+      console.log(`Applied migration ${migration.version}: ${migration.name}`);
+    }
+
+    // Rows written while foreign keys were not enforced may point at deleted parents
+    const violations = db.pragma('foreign_key_check') as any[];
+    if (violations.length > 0) {
+      console.warn(`Foreign key check: ${violations.length} rows reference missing parents (tables: ${Array.from(new Set(violations.map(v => v.table))).join(', ')})`);
+    }
+  } finally {
+    db.pragma('foreign_keys = ON');
+  }
+  return pending.map(m => m.version);
+}
@@ -0,0 +1,72 @@
+import db from './db';
+
+// Likes and visibility of moments. A like is one row per moment and liker ('user' or a character id).
+// Visibility works like WeChat: 'public', 'only' (just the characters in moment_audience) or 'except'
+// (everyone but them). The author and the user always see a moment; for characters it decides whether
+// they can see, like or comment on it.
+
+export const MOMENT_VISIBILITIES = ['public', 'only', 'except'];
+
+export function getMoment(id: string) {
+  return db.prepare('SELECT * FROM moments WHERE id = ?').get(id) as any;
+}
+
+export function getMomentAudience(momentId: string) {
+  return (db.prepare('SELECT character_id FROM moment_audience WHERE moment_id = ?').all(momentId) as any[]).map(r => r.character_id);
+}
+
+export function canSeeMoment(moment: any, viewerId: string) {
+  if (!moment) return false;
+  if (viewerId === 'user' || viewerId === moment.character_id) return true;
+  if (moment.visibility !== 'only' && moment.visibility !== 'except') return true;
+  const listed = !!db.prepare('SELECT 1 FROM moment_audience WHERE moment_id = ? AND character_id = ?').get(moment.id, viewerId);
+  return moment.visibility === 'only' ? listed : !listed;
+}
+
+// Throws on an unknown visibility or character; 'public' clears the audience
+export function setMomentVisibility(momentId: string, visibility: string, characterIds: string[] = []) {
+  if (!MOMENT_VISIBILITIES.includes(visibility)) throw new Error(`visibility must be one of ${MOMENT_VISIBILITIES.join(', ')}`);
+  if (!Array.isArray(characterIds)) throw new Error('character_ids must be a list');
+  const audience = visibility === 'public' ? [] : Array.from(new Set(characterIds));
+  for (const id of audience) {
+    if (!db.prepare('SELECT 1 FROM characters WHERE id = ? AND is_group = 0').get(id)) throw new Error(`Unknown character: ${id}`);
+  }
+  db.transaction(() => {
+    db.prepare('UPDATE moments SET visibility = ? WHERE id = ?').run(visibility, momentId);
+    db.prepare('DELETE FROM moment_audience WHERE moment_id = ?').run(momentId);
+    const insert = db.prepare('INSERT INTO moment_audience (moment_id, character_id) VALUES (?, ?)');
+    audience.forEach(id => insert.run(momentId, id));
+  })();
+}
+
+// False when the liker cannot see the moment or already liked it
+export function addLike(momentId: string, likerId: string) {
+  if (!canSeeMoment(getMoment(momentId), likerId)) return false;
+  const result = db.prepare('INSERT OR IGNORE INTO moment_likes (moment_id, liker_id, created_at) VALUES (?, ?, ?)')
+    .run(momentId, likerId, new Date().toISOString());
+  return result.changes > 0;
+}
+
+export function removeLike(momentId: string, likerId: string) {
+  return db.prepare('DELETE FROM moment_likes WHERE moment_id = ? AND liker_id = ?').run(momentId, likerId).changes > 0;
+}
+
+// Likers plus the anonymous likes counted before likes were tracked per liker
+export function countLikes(momentId: string) {
+  const row = db.prepare(`
+    SELECT COALESCE(m.legacy_likes, 0) + (SELECT COUNT(*) FROM moment_likes WHERE moment_id = m.id) AS n FROM moments m WHERE m.id = ?
+  `).get(momentId) as any;
+  return (row?.n || 0) as number;
+}
+
+// Likers in the order they liked; the user is shown as `userName`
+export function listLikers(momentId: string, userName: string) {
+  const rows = db.prepare(`
+    SELECT l.liker_id, l.created_at, c.name FROM moment_likes l
+    LEFT JOIN characters c ON c.id = l.liker_id
+    WHERE l.moment_id = ? ORDER BY l.created_at ASC
+  `).all(momentId) as any[];
+  return rows
+    .filter(r => r.liker_id === 'user' || r.name)
+    .map(r => ({ id: r.liker_id, name: r.liker_id === 'user' ? userName : r.name, liked_at: r.created_at }));
+}
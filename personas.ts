@@ -0,0 +1,107 @@
+import db from './db';
+import { v4 as uuidv4 } from 'uuid';
+import { storeDataUrl } from './media';
+import { isLanguageSetting, t } from './language';
+
+// Who the user is in a conversation. One persona is the default; a private chat or group can be bound
+// to another one (characters.persona_id). User messages record the persona that sent them.
+
+const PERSONA_FIELDS = ['name', 'gender', 'bio', 'avatar', 'background', 'language'];
+export const DEFAULT_PERSONA_AVATAR = 'https://api.dicebear.com/7.x/avataaars/svg?seed=User';
+
+function toPersona(row: any) {
+  return row && { ...row, is_default: !!row.is_default };
+}
+
+export function listPersonas() {
+  return (db.prepare('SELECT * FROM personas ORDER BY is_default DESC, created_at').all() as any[]).map(toPersona);
+}
+
+export function getPersona(id: string) {
+  return toPersona(db.prepare('SELECT * FROM personas WHERE id = ?').get(id));
+}
+
+// Falls back to the oldest persona, and to a bare one when the table is empty
+export function getDefaultPersona() {
+  const row = db.prepare('SELECT * FROM personas ORDER BY is_default DESC, created_at LIMIT 1').get();
+  return toPersona(row) || { id: null, name: 'Me', gender: '', bio: '', avatar: '', background: '', language: '', is_default: true };
+}
+
+// The persona bound to a private chat or group, else the default
+export function getChatPersona(chatId: string) {
+  const bound = db.prepare('SELECT p.* FROM personas p JOIN characters c ON c.persona_id = p.id WHERE c.id = ?').get(chatId);
+  return toPersona(bound) || getDefaultPersona();
+}
+
+export function savePersona(id: string | null, fields: any) {
+  const existing = id ? getPersona(id) : null;
+  if (id && !existing) return null;
+  const persona: any = { ...(existing || { gender: '', bio: '', avatar: '', background: '', language: '' }) };
+  for (const field of PERSONA_FIELDS) {
+    if (fields[field] !== undefined) persona[field] = fields[field] ?? '';
+  }
+  persona.name = String(persona.name ?? '').trim();
+  if (!persona.name) throw new Error('Persona name is required');
+  if (!isLanguageSetting(persona.language ?? '')) throw new Error(t('unknown_language', { language: persona.language }));
+  persona.avatar = persona.avatar ? storeDataUrl(persona.avatar) : '';
+
+  const now = new Date().toISOString();
+  const values = PERSONA_FIELDS.map(f => persona[f]);
+  const save = db.transaction(() => {
+    if (existing) {
+      db.prepare(`UPDATE personas SET ${PERSONA_FIELDS.map(f => `${f} = ?`).join(', ')}, updated_at = ? WHERE id = ?`).run(...values, now, id);
+      return id;
+    }
+    const newId = uuidv4();
+    // The first persona becomes the default
+    const isDefault = fields.is_default || !db.prepare('SELECT 1 FROM personas').get();
+    db.prepare(`INSERT INTO personas (id, ${PERSONA_FIELDS.join(', ')}, is_default, created_at, updated_at)
+      VALUES (?, ${PERSONA_FIELDS.map(() => '?').join(', ')}, 0, ?, ?)`).run(newId, ...values, now, now);
+    if (isDefault) setDefaultPersona(newId);
+    return newId;
+  });
+  return getPersona(save());
+}
+
+export function setDefaultPersona(id: string) {
+  if (!getPersona(id)) return null;
+  db.transaction(() => {
+    db.prepare('UPDATE personas SET is_default = 0 WHERE is_default = 1').run();
+    db.prepare('UPDATE personas SET is_default = 1 WHERE id = ?').run(id);
+  })();
+  return getPersona(id);
+}
+
+// The last persona cannot be deleted. Chats bound to it go back to the default, which passes to the
+// oldest remaining persona if needed; old messages keep their persona_id and sender_name.
+export function deletePersona(id: string) {
+  const persona = getPersona(id);
+  if (!persona) return false;
+  if ((db.prepare('SELECT COUNT(*) AS n FROM personas').get() as any).n <= 1) throw new Error('Cannot delete the last persona');
+  db.transaction(() => {
+    db.prepare('UPDATE characters SET persona_id = NULL WHERE persona_id = ?').run(id);
+    db.prepare('DELETE FROM personas WHERE id = ?').run(id);
+    if (persona.is_default) {
+      const next = db.prepare('SELECT id FROM personas ORDER BY created_at LIMIT 1').get() as any;
+      db.prepare('UPDATE personas SET is_default = 1 WHERE id = ?').run(next.id);
+    }
+  })();
+  return true;
+}
+
+// `personaId` null goes back to the default persona
+export function bindPersona(chatId: string, personaId: string | null) {
+  if (personaId && !getPersona(personaId)) throw new Error('Unknown persona');
+  db.prepare('UPDATE characters SET persona_id = ? WHERE id = ?').run(personaId, chatId);
+  return getChatPersona(chatId);
+}
+
+// The {{user.*}} template variables
+export function personaVariables(persona: any) {
+  return {
+    name: persona.name || 'Me',
+    gender: persona.gender || '',
+    bio: persona.bio || '',
+    background: persona.background || ''
+  };
+}
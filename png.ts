@@ -0,0 +1,254 @@
+import zlib from 'zlib';
+
+// PNG reading and writing without an image library: tEXt chunks for character cards, and decoding,
+// downscaling and encoding for media thumbnails. Interlaced PNGs are not decoded.
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Larger images are not decoded (16 megapixels, 64 MB of RGBA)
+const MAX_PIXELS = 4096 * 4096;
+
+// --- Chunks ---
+
+let crcTable: number[] | null = null;
+
+function crc32(buffer: Buffer) {
+  if (!crcTable) {
+    crcTable = [];
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < buffer.length; i++) {
+    crc = crcTable[(crc ^ buffer[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function readChunks(png: Buffer) {
+  if (!isPng(png)) {
+    throw new Error('Not a PNG file');
+  }
+  const chunks: { type: string; data: Buffer }[] = [];
+  let offset = 8;
+  while (offset + 8 <= png.length) {
+    const length = png.readUInt32BE(offset);
+    const type = png.toString('latin1', offset + 4, offset + 8);
+    if (offset + 12 + length > png.length) throw new Error('Truncated PNG chunk');
+    chunks.push({ type, data: png.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+    if (type === 'IEND') break;
+  }
+  return chunks;
+}
+
+function encodeChunk(type: string, data: Buffer) {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const typeAndData = Buffer.concat([Buffer.from(type, 'latin1'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData));
+  return Buffer.concat([length, typeAndData, crc]);
+}
+
+export function readPngText(png: Buffer, keyword: string) {
+  for (const chunk of readChunks(png)) {
+    if (chunk.type !== 'tEXt') continue;
+    const sep = chunk.data.indexOf(0);
+    if (sep === -1) continue;
+    if (chunk.data.toString('latin1', 0, sep) === keyword) {
+      return chunk.data.toString('latin1', sep + 1);
+    }
+  }
+  return null;
+}
+
+// Replace (or add) a tEXt chunk right before IEND
+export function writePngText(png: Buffer, keyword: string, text: string) {
+  const parts = [PNG_SIGNATURE];
+  for (const chunk of readChunks(png)) {
+    if (chunk.type === 'tEXt') {
+      const sep = chunk.data.indexOf(0);
+      if (sep !== -1 && chunk.data.toString('latin1', 0, sep) === keyword) continue;
+    }
+    if (chunk.type === 'IEND') {
+      parts.push(encodeChunk('tEXt', Buffer.concat([Buffer.from(keyword, 'latin1'), Buffer.from([0]), Buffer.from(text, 'latin1')])));
+    }
+    parts.push(encodeChunk(chunk.type, chunk.data));
+  }
+  return Buffer.concat(parts);
+}
+
+// --- Pixels ---
+
+// 8-bit RGBA, row by row
+export interface Bitmap {
+  width: number;
+  height: number;
+  data: Buffer;
+}
+
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 }; // By color type
+
+export function isPng(data: Buffer) {
+  return data.length >= 8 && data.subarray(0, 8).equals(PNG_SIGNATURE);
+}
+
+function paeth(a: number, b: number, c: number) {
+  const p = a + b - c;
+  const pa = Math.abs(p - a), pb = Math.abs(p - b), pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+// Undo the per-row filters; returns the rows without their filter bytes
+function unfilter(raw: Buffer, height: number, stride: number, bpp: number) {
+  const rows = Buffer.alloc(height * stride);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const line = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const row = y * stride;
+    const prev = row - stride;
+    for (let i = 0; i < stride; i++) {
+      const left = i >= bpp ? rows[row + i - bpp] : 0;
+      const up = y > 0 ? rows[prev + i] : 0;
+      const upLeft = y > 0 && i >= bpp ? rows[prev + i - bpp] : 0;
+      let value = line[i];
+      if (filter === 1) value += left;
+      else if (filter === 2) value += up;
+      else if (filter === 3) value += (left + up) >> 1;
+      else if (filter === 4) value += paeth(left, up, upLeft);
+      else if (filter !== 0) throw new Error(`Unknown PNG filter ${filter}`);
+      rows[row + i] = value & 0xff;
+    }
+  }
+  return rows;
+}
+
+// Throws for files it cannot decode (not a PNG, interlaced, too large, corrupt)
+export function decodePng(png: Buffer): Bitmap {
+  const chunks = readChunks(png);
+  const header = chunks.find(c => c.type === 'IHDR')?.data;
+  if (!header || header.length < 13) throw new Error('PNG has no header');
+  const width = header.readUInt32BE(0);
+  const height = header.readUInt32BE(4);
+  const depth = header[8];
+  const colorType = header[9];
+  const channels = CHANNELS[colorType];
+  if (!channels || ![1, 2, 4, 8, 16].includes(depth)) throw new Error('Unsupported PNG format');
+  if (header[12] !== 0) throw new Error('Interlaced PNGs are not supported');
+  if (width === 0 || height === 0 || width * height > MAX_PIXELS) throw new Error('PNG is too large');
+
+  const stride = Math.ceil(width * channels * depth / 8);
+  const bpp = Math.max(1, channels * depth / 8);
+  const compressed = Buffer.concat(chunks.filter(c => c.type === 'IDAT').map(c => c.data));
+  const raw = zlib.inflateSync(compressed, { maxOutputLength: height * (stride + 1) });
+  if (raw.length < height * (stride + 1)) throw new Error('Truncated PNG data');
+  const rows = unfilter(raw, height, stride, bpp);
+
+  const palette = chunks.find(c => c.type === 'PLTE')?.data;
+  const transparency = chunks.find(c => c.type === 'tRNS')?.data;
+  if (colorType === 3 && !palette) throw new Error('PNG has no palette');
+
+  // Raw sample `index` of a row (16-bit samples keep their high byte)
+  const sample = (row: number, index: number) => {
+    if (depth === 8) return rows[row + index];
+    if (depth === 16) return rows[row + index * 2];
+    const bit = index * depth;
+    return (rows[row + (bit >> 3)] >> (8 - depth - (bit & 7))) & ((1 << depth) - 1);
+  };
+  const full = (value: number) => depth < 8 ? Math.round(value * 255 / ((1 << depth) - 1)) : value;
+  // tRNS for gray and RGB images: one 16-bit color that is fully transparent
+  const key = transparency && (colorType === 0 || colorType === 2)
+    ? Array.from({ length: channels }, (_, c) => transparency.readUInt16BE(c * 2))
+    : null;
+  const keyed = (row: number, x: number) => !!key && key.every((k, c) =>
+    depth === 16 ? rows.readUInt16BE(row + (x * channels + c) * 2) === k : sample(row, x * channels + c) === k);
+
+  const data = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const row = y * stride;
+    for (let x = 0; x < width; x++) {
+      const out = (y * width + x) * 4;
+      const s = x * channels;
+      if (colorType === 3) {
+        const index = sample(row, s);
+        data[out] = palette![index * 3] ?? 0;
+        data[out + 1] = palette![index * 3 + 1] ?? 0;
+        data[out + 2] = palette![index * 3 + 2] ?? 0;
+        data[out + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+        continue;
+      }
+      const gray = colorType === 0 || colorType === 4;
+      data[out] = full(sample(row, s));
+      data[out + 1] = gray ? data[out] : full(sample(row, s + 1));
+      data[out + 2] = gray ? data[out] : full(sample(row, s + 2));
+      if (colorType === 4 || colorType === 6) data[out + 3] = full(sample(row, s + channels - 1));
+      else data[out + 3] = keyed(row, x) ? 0 : 255;
+    }
+  }
+  return { width, height, data };
+}
+
+// 8-bit RGBA PNG, unfiltered rows
+export function encodePng(image: Bitmap) {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(image.width, 0);
+  header.writeUInt32BE(image.height, 4);
+  header[8] = 8; // Bit depth
+  header[9] = 6; // RGBA
+  const stride = image.width * 4;
+  const raw = Buffer.alloc(image.height * (stride + 1));
+  for (let y = 0; y < image.height; y++) {
+    image.data.copy(raw, y * (stride + 1) + 1, y * stride, (y + 1) * stride);
+  }
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    encodeChunk('IHDR', header),
+    encodeChunk('IDAT', zlib.deflateSync(raw)),
+    encodeChunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+// Shrink so neither side exceeds `size`, averaging each box of source pixels (weighted by alpha so
+// transparent pixels do not darken edges). Smaller images are returned as they are.
+export function fitWithin(image: Bitmap, size: number): Bitmap {
+  const scale = Math.min(1, size / Math.max(image.width, image.height));
+  if (scale === 1) return image;
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  const data = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor(y * image.height / height);
+    const y1 = Math.max(y0 + 1, Math.floor((y + 1) * image.height / height));
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor(x * image.width / width);
+      const x1 = Math.max(x0 + 1, Math.floor((x + 1) * image.width / width));
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          const i = (sy * image.width + sx) * 4;
+          const alpha = image.data[i + 3];
+          r += image.data[i] * alpha;
+          g += image.data[i + 1] * alpha;
+          b += image.data[i + 2] * alpha;
+          a += alpha;
+        }
+      }
+      const out = (y * width + x) * 4;
+      const count = (y1 - y0) * (x1 - x0);
+      if (a > 0) {
+        data[out] = Math.round(r / a);
+        data[out + 1] = Math.round(g / a);
+        data[out + 2] = Math.round(b / a);
+      }
+      data[out + 3] = Math.round(a / count);
+    }
+  }
+  return { width, height, data };
+}
@@ -0,0 +1,1015 @@
+import { GoogleGenAI } from '@google/genai';
+import { t } from './language';
+import { silentWav } from './voice';
+
+// LLM provider registry: every model call (chat, vision, image, audio, model listing, connection tests)
+// goes through one of these adapters, selected by the `<purpose>_provider` settings.
+
+export type ProviderPurpose = 'chat' | 'vision' | 'image' | 'transcription' | 'speech';
+
+export interface ProviderConfig {
+  apiKey?: string;
+  baseURL?: string;
+  model?: string;
+}
+
+// Token counts as reported by the API (missing when the endpoint does not report them)
+export interface Usage {
+  promptTokens?: number;
+  completionTokens?: number;
+}
+
+export interface CallOptions {
+  onUsage?: (usage: Usage) => void;
+  signal?: AbortSignal; // Aborts the HTTP request (timeouts)
+}
+
+export interface AudioData {
+  data: Buffer;
+  mime: string;
+}
+
+export interface Transcription {
+  text: string;
+  duration?: number; // Seconds, when the endpoint reports it
+}
+
+export interface SpeechOptions extends CallOptions {
+  voice?: string;
+  speed?: number; // 1 is normal
+}
+
+// Error from a provider API; `status` and `retryAfterMs` drive retries
+export class ProviderError extends Error {
+  constructor(message: string, public status?: number, public retryAfterMs?: number) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+// A function the model may call; `parameters` is a JSON schema
+export interface ToolSpec {
+  name: string;
+  description: string;
+  parameters: object;
+}
+
+// One function call requested by the model. In chat messages it is sent back as
+// { role: 'assistant', content, tool_calls: ToolCall[] } followed by one
+// { role: 'tool', tool_call_id, name, content } message per call.
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: any;
+  signature?: string; // Opaque provider data that must be sent back with the call (Gemini thought signatures)
+}
+
+export interface ChatOptions extends CallOptions {
+  temperature?: number;
+  onDelta?: (delta: string) => void; // When set, the reply is streamed
+  responseSchema?: object; // JSON schema for structured output; providers without support rely on the prompt
+  tools?: ToolSpec[];
+  onToolCalls?: (calls: ToolCall[]) => void; // Called once, after the reply finished, when the model called tools
+}
+
+export interface LLMProvider {
+  id: string;
+  name: string;
+  chat(config: ProviderConfig, messages: any[], options?: ChatOptions): Promise<string>;
+  describeImage(config: ProviderConfig, prompt: string, image: string, options?: CallOptions): Promise<string>;
+  generateImage(config: ProviderConfig, prompt: string, options?: CallOptions): Promise<string | null>;
+  listModels(config: ProviderConfig): Promise<string[]>;
+  testConnection(config: ProviderConfig, type?: string): Promise<string>;
+  // Audio is OpenAI compatible only (/audio/transcriptions, /audio/speech)
+  transcribe?(config: ProviderConfig, audio: AudioData, options?: CallOptions): Promise<Transcription>;
+  speak?(config: ProviderConfig, text: string, options?: SpeechOptions): Promise<AudioData>;
+}
+
+export const DEFAULT_MODELS: Record<string, Partial<Record<ProviderPurpose, string>>> = {
+  openai: { chat: 'gpt-3.5-turbo', vision: 'gpt-4o-mini', image: 'dall-e-3', transcription: 'whisper-1', speech: 'tts-1' },
+  gemini: { chat: 'gemini-3-flash-preview', vision: 'gemini-3-flash-preview', image: 'gemini-2.5-flash-image' },
+  anthropic: { chat: 'claude-3-5-haiku-latest', vision: 'claude-3-5-haiku-latest' },
+  ollama: { chat: 'llama3.1', vision: 'llava' }
+};
+
+const TEST_IMAGE_PROMPT = "A beautiful digital art piece of a futuristic city with neon lights, high resolution, detailed";
+
+function normalizeBaseURL(baseURL: string) {
+  return (baseURL || '').replace(/\/+$/, '');
+}
+
+// Pull leading system messages out for APIs with a separate system field.
+// Later system messages (e.g. image descriptions) become user turns.
+function splitSystem(messages: any[]) {
+  const systemParts: string[] = [];
+  const rest: any[] = [];
+  for (const msg of messages) {
+    if (msg.role === 'system' && rest.length === 0) {
+      systemParts.push(msg.content);
+    } else if (msg.role === 'system') {
+      rest.push({ role: 'user', content: msg.content });
+    } else {
+      rest.push(msg);
+    }
+  }
+  // A bare prompt (system only) is sent as the user turn
+  if (rest.length === 0 && systemParts.length > 0) {
+    return { system: '', rest: [{ role: 'user', content: systemParts.join('\n\n') }] };
+  }
+  return { system: systemParts.join('\n\n'), rest };
+}
+
+let toolCallCounter = 0;
+
+// For APIs that do not give tool calls an id
+function toolCallId() {
+  return `call_${Date.now().toString(36)}_${toolCallCounter++}`;
+}
+
+function parseToolArguments(value: any) {
+  if (typeof value !== 'string') return value || {};
+  try {
+    return value ? JSON.parse(value) : {};
+  } catch (e) {
+    return {};
+  }
+}
+
+function reportToolCalls(calls: ToolCall[], onToolCalls?: (calls: ToolCall[]) => void) {
+  if (calls.length > 0 && onToolCalls) onToolCalls(calls);
+}
+
+function splitDataUrl(image: string) {
+  const match = (image || '').match(/^data:(.*?);base64,(.*)$/);
+  if (match) return { mimeType: match[1], data: match[2] };
+  return { mimeType: 'image/png', data: image };
+}
+
+// Read an SSE (`data: ...`) or NDJSON response body line by line
+async function readLines(response: Response, onLine: (line: string) => boolean | void) {
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      if (line.trim() && onLine(line.trim()) === false) return;
+    }
+  }
+  if (buffer.trim()) onLine(buffer.trim());
+}
+
+// --- OpenAI compatible ---
+
+async function generateWithOpenAI(apiKey: string, baseURL: string, model: string, messages: any[], temperature: number = 0.7, options: ChatOptions = {}) {
+  const normalizedBaseURL = baseURL.replace(/\/+$/, '');
+  const url = `${normalizedBaseURL}/chat/completions`;
+  const response = await fetch(url, {
+    method: 'POST',
+    signal: options.signal,
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${apiKey}`
+    },
+    body: JSON.stringify({
+      model,
+      messages: toOpenAIMessages(messages),
+      temperature,
+      ...openAIResponseFormat(options.responseSchema),
+      ...openAITools(options.tools)
+    })
+  });
+  
+  if (!response.ok) {
+    throw await readErrorResponse(response);
+  }
+  
+  const data = await response.json();
+  if (!data.choices || !data.choices[0]) {
+    throw new Error(t('missing_choices'));
+  }
+  reportOpenAIUsage(data.usage, options.onUsage);
+  reportToolCalls(readOpenAIToolCalls(data.choices[0].message.tool_calls), options.onToolCalls);
+  return data.choices[0].message.content || '';
+}
+
+function openAIResponseFormat(schema?: object) {
+  return schema ? { response_format: { type: 'json_schema', json_schema: { name: 'reply', schema } } } : {};
+}
+
+function openAITools(tools?: ToolSpec[]) {
+  return tools?.length ? { tools: tools.map(t => ({ type: 'function', function: { name: t.name, description: t.description, parameters: t.parameters } })) } : {};
+}
+
+function toOpenAIMessages(messages: any[]) {
+  return messages.map(msg => {
+    if (msg.role === 'tool') return { role: 'tool', tool_call_id: msg.tool_call_id, content: msg.content };
+    if (!msg.tool_calls) return msg;
+    return {
+      role: 'assistant',
+      content: msg.content || null,
+      tool_calls: msg.tool_calls.map((c: ToolCall) => ({ id: c.id, type: 'function', function: { name: c.name, arguments: JSON.stringify(c.arguments) } }))
+    };
+  });
+}
+
+function readOpenAIToolCalls(toolCalls: any[]): ToolCall[] {
+  return (toolCalls || []).filter(c => c?.function?.name).map(c => ({
+    id: c.id || toolCallId(),
+    name: c.function.name,
+    arguments: parseToolArguments(c.function.arguments)
+  }));
+}
+
+function reportOpenAIUsage(usage: any, onUsage?: (usage: Usage) => void) {
+  if (usage && onUsage) onUsage({ promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens });
+}
+
+async function readErrorResponse(response: Response) {
+  const status = response.status;
+  const errText = await response.text();
+  let errorMessage = errText;
+  try {
+    const errJson = JSON.parse(errText);
+    if (errJson.error) {
+      errorMessage = errJson.error.message || JSON.stringify(errJson.error);
+    } else if (errJson.message) {
+      errorMessage = errJson.message;
+    }
+  } catch (e) {}
+  return new ProviderError(`[HTTP ${status}] ${errorMessage}`, status, parseRetryAfter(response.headers.get('retry-after')));
+}
+
+// Retry-After is either seconds or an HTTP date
+function parseRetryAfter(value: string | null) {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Same as generateWithOpenAI but with `stream: true`; calls onDelta for every content chunk and resolves with the full text
+async function streamWithOpenAI(apiKey: string, baseURL: string, model: string, messages: any[], onDelta: (delta: string) => void, temperature: number = 0.7, options: ChatOptions = {}) {
+  const normalizedBaseURL = baseURL.replace(/\/+$/, '');
+  const url = `${normalizedBaseURL}/chat/completions`;
+  const response = await fetch(url, {
+    method: 'POST',
+    signal: options.signal,
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${apiKey}`
+    },
+    body: JSON.stringify({
+      model,
+      messages: toOpenAIMessages(messages),
+      temperature,
+      stream: true,
+      stream_options: { include_usage: true },
+      ...openAIResponseFormat(options.responseSchema),
+      ...openAITools(options.tools)
+    })
+  });
+
+  if (!response.ok) {
+    throw await readErrorResponse(response);
+  }
+
+  // Some compatible endpoints ignore `stream` and answer with a plain JSON body
+  if (!(response.headers.get('content-type') || '').includes('text/event-stream')) {
+    const data = await response.json();
+    if (!data.choices || !data.choices[0]) {
+      throw new Error(t('missing_choices'));
+    }
+    const content = data.choices[0].message.content || '';
+    if (content) onDelta(content);
+    reportOpenAIUsage(data.usage, options.onUsage);
+    reportToolCalls(readOpenAIToolCalls(data.choices[0].message.tool_calls), options.onToolCalls);
+    return content;
+  }
+
+  let text = '';
+  // Tool calls arrive in fragments keyed by index; arguments are a JSON string split across chunks
+  const toolCalls: any[] = [];
+  await readLines(response, (line) => {
+    if (!line.startsWith('data:')) return;
+    const payload = line.slice(5).trim();
+    if (payload === '[DONE]') return false;
+    try {
+      const chunk = JSON.parse(payload);
+      // With include_usage the last chunk carries the usage and no choices
+      reportOpenAIUsage(chunk.usage, options.onUsage);
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onDelta(delta);
+      }
+      for (const fragment of chunk.choices?.[0]?.delta?.tool_calls || []) {
+        const call = toolCalls[fragment.index ?? 0] ||= { id: '', function: { name: '', arguments: '' } };
+        if (fragment.id) call.id = fragment.id;
+        if (fragment.function?.name) call.function.name += fragment.function.name;
+        if (fragment.function?.arguments) call.function.arguments += fragment.function.arguments;
+      }
+    } catch (e) {}
+  });
+  reportToolCalls(readOpenAIToolCalls(toolCalls), options.onToolCalls);
+  return text;
+}
+
+async function generateImageWithOpenAI(apiKey: string, baseURL: string, model: string, prompt: string, options: CallOptions = {}) {
+  const normalizedBaseURL = baseURL.replace(/\/+$/, '');
+  const url = `${normalizedBaseURL}/images/generations`;
+  
+  const bodies = [
+    { model, prompt, n: 1, size: "1024x1024", response_format: 'b64_json' },
+    { model, prompt, n: 1, response_format: 'b64_json' },
+    { model, prompt, n: 1 }
+  ];
+
+  let lastError = null;
+  let lastStatus = 0;
+  let retryAfter: string | null = null;
+
+  for (const body of bodies) {
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        signal: options.signal,
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${apiKey}`
+        },
+        body: JSON.stringify(body)
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        if (data.data && data.data[0]) {
+          const imageData = data.data[0];
+          if (imageData.b64_json) return `data:image/png;base64,${imageData.b64_json}`;
+          if (imageData.url) return imageData.url;
+        }
+      } else {
+        lastStatus = response.status;
+        retryAfter = response.headers.get('retry-after');
+        lastError = await response.text();
+        // Only a rejected body is worth another body shape; auth, rate limit and server errors are not
+        if (lastStatus !== 400 && lastStatus !== 422) break;
+      }
+    } catch (e: any) {
+      if (e.name === 'AbortError') throw e;
+      lastError = e.message;
+    }
+  }
+
+  let errorMessage = lastError || t('unknown_error');
+  try {
+    const errJson = JSON.parse(lastError);
+    if (errJson.error) {
+      errorMessage = errJson.error.message || JSON.stringify(errJson.error);
+      if (errJson.error.code === 'bad_response_status_code' || errorMessage.includes('openai_error')) {
+        errorMessage = t('image_bad_response', { model });
+      }
+    }
+  } catch (e) {}
+
+  throw new ProviderError(`[HTTP ${lastStatus}] ${errorMessage}`, lastStatus || undefined, parseRetryAfter(retryAfter));
+}
+
+const AUDIO_EXTENSIONS: Record<string, string> = { 'audio/webm': 'webm', 'audio/ogg': 'ogg', 'audio/mpeg': 'mp3', 'audio/mp4': 'm4a', 'audio/wav': 'wav', 'audio/x-wav': 'wav' };
+
+// Also works with local whisper-compatible servers, which need no key
+async function transcribeWithOpenAI(apiKey: string, baseURL: string, model: string, audio: AudioData, options: CallOptions = {}) {
+  const mime = audio.mime.split(';')[0];
+  const form = new FormData();
+  form.append('file', new Blob([new Uint8Array(audio.data)], { type: mime }), `audio.${AUDIO_EXTENSIONS[mime] || 'webm'}`);
+  form.append('model', model);
+  form.append('response_format', 'verbose_json');
+
+  const response = await fetch(`${normalizeBaseURL(baseURL)}/audio/transcriptions`, {
+    method: 'POST',
+    signal: options.signal,
+    headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+    body: form
+  });
+  if (!response.ok) {
+    throw await readErrorResponse(response);
+  }
+  const data = await response.json();
+  return { text: String(data.text || '').trim(), duration: typeof data.duration === 'number' ? data.duration : undefined };
+}
+
+// WAV, so the duration can be read from the header
+async function speakWithOpenAI(apiKey: string, baseURL: string, model: string, text: string, options: SpeechOptions = {}) {
+  const response = await fetch(`${normalizeBaseURL(baseURL)}/audio/speech`, {
+    method: 'POST',
+    signal: options.signal,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {})
+    },
+    body: JSON.stringify({ model, input: text, voice: options.voice || 'alloy', speed: options.speed || 1, response_format: 'wav' })
+  });
+  if (!response.ok) {
+    throw await readErrorResponse(response);
+  }
+  const mime = (response.headers.get('content-type') || 'audio/wav').split(';')[0];
+  return { data: Buffer.from(await response.arrayBuffer()), mime: mime.startsWith('audio/') ? mime : 'audio/wav' };
+}
+
+async function listOpenAIModels(apiKey: string, baseURL: string) {
+  const response = await fetch(`${normalizeBaseURL(baseURL)}/models`, {
+    headers: { 'Authorization': `Bearer ${apiKey}` }
+  });
+  if (!response.ok) {
+    throw await readErrorResponse(response);
+  }
+  const data = await response.json();
+  return (data.data || []).map((m: any) => m.id);
+}
+
+const openaiProvider: LLMProvider = {
+  id: 'openai',
+  name: 'OpenAI Compatible',
+  async chat(config, messages, options = {}) {
+    const model = config.model || DEFAULT_MODELS.openai.chat;
+    const send = (opts: ChatOptions) => opts.onDelta
+      ? streamWithOpenAI(config.apiKey, config.baseURL, model, messages, opts.onDelta, opts.temperature, opts)
+      : generateWithOpenAI(config.apiKey, config.baseURL, model, messages, opts.temperature, opts);
+    try {
+      return await send(options);
+    } catch (e: any) {
+      // Many compatible endpoints reject json_schema or tools; the prompt still asks for JSON
+      if ((!options.responseSchema && !options.tools?.length) || (e.status !== 400 && e.status !== 422)) throw e;
+      console.warn("Endpoint rejected response_format or tools, retrying without them:", e.message);
+      return send({ ...options, responseSchema: undefined, tools: undefined });
+    }
+  },
+  async describeImage(config, prompt, image, options = {}) {
+    const visionMessages = [
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: prompt },
+          { type: 'image_url', image_url: { url: image } }
+        ]
+      }
+    ];
+    return generateWithOpenAI(config.apiKey, config.baseURL, config.model || DEFAULT_MODELS.openai.vision, visionMessages, undefined, options);
+  },
+  async generateImage(config, prompt, options = {}) {
+    return generateImageWithOpenAI(config.apiKey, config.baseURL, config.model || DEFAULT_MODELS.openai.image, prompt, options);
+  },
+  async listModels(config) {
+    return listOpenAIModels(config.apiKey, config.baseURL);
+  },
+  async testConnection(config, type) {
+    if (type === 'image') {
+      await this.generateImage(config, TEST_IMAGE_PROMPT);
+      return t('connection_ok_image');
+    }
+    if (type === 'speech') {
+      await this.speak(config, 'Hi');
+      return t('connection_ok');
+    }
+    // A transcription endpoint is tested with a generated second of silence
+    if (type === 'transcription') {
+      await this.transcribe(config, { data: silentWav(1), mime: 'audio/wav' });
+      return t('connection_ok');
+    }
+    await this.chat(config, [{ role: 'user', content: 'hi' }]);
+    return t('connection_ok');
+  },
+  async transcribe(config, audio, options = {}) {
+    return transcribeWithOpenAI(config.apiKey, config.baseURL, config.model || DEFAULT_MODELS.openai.transcription, audio, options);
+  },
+  async speak(config, text, options = {}) {
+    return speakWithOpenAI(config.apiKey, config.baseURL, config.model || DEFAULT_MODELS.openai.speech, text, options);
+  }
+};
+
+// --- Gemini ---
+
+const geminiClients = new Map<string, GoogleGenAI>();
+
+function getGeminiClient(apiKey?: string) {
+  const key = apiKey || process.env.GEMINI_API_KEY;
+  if (!geminiClients.has(key)) {
+    geminiClients.set(key, new GoogleGenAI({ apiKey: key }));
+  }
+  return geminiClients.get(key);
+}
+
+function reportGeminiUsage(metadata: any, onUsage?: (usage: Usage) => void) {
+  if (metadata && onUsage) onUsage({ promptTokens: metadata.promptTokenCount, completionTokens: metadata.candidatesTokenCount });
+}
+
+function toGeminiContents(messages: any[]) {
+  const contents: any[] = [];
+  for (const msg of messages) {
+    if (msg.role === 'tool') {
+      // All results of one round go back in a single turn
+      const part = { functionResponse: { name: msg.name, response: { result: msg.content } } };
+      const last = contents[contents.length - 1];
+      if (last?.parts.every((p: any) => p.functionResponse)) last.parts.push(part);
+      else contents.push({ role: 'user', parts: [part] });
+      continue;
+    }
+    const text = typeof msg.content === 'string' ? msg.content : JSON.stringify(msg.content);
+    const parts: any[] = text ? [{ text }] : [];
+    for (const call of msg.tool_calls || []) {
+      parts.push({ functionCall: { name: call.name, args: call.arguments }, ...(call.signature ? { thoughtSignature: call.signature } : {}) });
+    }
+    contents.push({ role: msg.role === 'assistant' ? 'model' : 'user', parts: parts.length > 0 ? parts : [{ text: '' }] });
+  }
+  return contents;
+}
+
+function readGeminiToolCalls(response: any): ToolCall[] {
+  return (response?.candidates?.[0]?.content?.parts || []).filter((p: any) => p.functionCall).map((p: any) => ({
+    id: p.functionCall.id || toolCallId(),
+    name: p.functionCall.name,
+    arguments: p.functionCall.args || {},
+    signature: p.thoughtSignature
+  }));
+}
+
+const geminiProvider: LLMProvider = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  async chat(config, messages, options = {}) {
+    const ai = getGeminiClient(config.apiKey);
+    const { system, rest } = splitSystem(messages);
+    const request = {
+      model: config.model || DEFAULT_MODELS.gemini.chat,
+      contents: toGeminiContents(rest),
+      config: {
+        ...(system ? { systemInstruction: system } : {}),
+        ...(options.temperature !== undefined ? { temperature: options.temperature } : {}),
+        ...(options.responseSchema ? { responseMimeType: 'application/json', responseJsonSchema: options.responseSchema } : {}),
+        ...(options.tools?.length ? {
+          tools: [{ functionDeclarations: options.tools.map(t => ({ name: t.name, description: t.description, parametersJsonSchema: t.parameters })) }]
+        } : {}),
+        ...(options.signal ? { abortSignal: options.signal } : {})
+      }
+    };
+
+    if (options.onDelta) {
+      const stream = await ai.models.generateContentStream(request);
+      let text = '';
+      let usage: any;
+      const toolCalls: ToolCall[] = [];
+      for await (const chunk of stream) {
+        if (chunk.usageMetadata) usage = chunk.usageMetadata;
+        toolCalls.push(...readGeminiToolCalls(chunk));
+        if (chunk.text) {
+          text += chunk.text;
+          options.onDelta(chunk.text);
+        }
+      }
+      reportGeminiUsage(usage, options.onUsage);
+      reportToolCalls(toolCalls, options.onToolCalls);
+      return text;
+    }
+    const result = await ai.models.generateContent(request);
+    reportGeminiUsage(result.usageMetadata, options.onUsage);
+    reportToolCalls(readGeminiToolCalls(result), options.onToolCalls);
+    return result.text || '';
+  },
+  async describeImage(config, prompt, image, options = {}) {
+    const ai = getGeminiClient(config.apiKey);
+    const response = await ai.models.generateContent({
+      model: config.model || DEFAULT_MODELS.gemini.vision,
+      contents: [
+        {
+          parts: [
+            { text: prompt },
+            {
+              inlineData: {
+                mimeType: "image/png",
+                data: image.split(',')[1] || image
+              }
+            }
+          ]
+        }
+      ],
+      ...(options.signal ? { config: { abortSignal: options.signal } } : {})
+    });
+    reportGeminiUsage(response.usageMetadata, options.onUsage);
+    return response.text;
+  },
+  async generateImage(config, prompt, options = {}) {
+    const ai = getGeminiClient(config.apiKey);
+    const model = config.model;
+    const size = model?.includes('2k') ? "2K" : (model?.includes('4k') ? "4K" : "1K");
+    const response = await ai.models.generateContent({
+      model: model || DEFAULT_MODELS.gemini.image,
+      contents: [{ parts: [{ text: prompt }] }],
+      config: {
+        imageConfig: {
+          aspectRatio: "1:1",
+          imageSize: size as any
+        },
+        ...(options.signal ? { abortSignal: options.signal } : {})
+      }
+    });
+    reportGeminiUsage(response.usageMetadata, options.onUsage);
+
+    for (const part of response.candidates[0].content.parts) {
+      if (part.inlineData) {
+        return `data:image/png;base64,${part.inlineData.data}`;
+      }
+    }
+    return null;
+  },
+  async listModels(config) {
+    const ai = getGeminiClient(config.apiKey);
+    const pager = await ai.models.list();
+    const models: string[] = [];
+    for await (const model of pager) {
+      models.push((model.name || '').replace(/^models\//, ''));
+    }
+    return models;
+  },
+  async testConnection(config, type) {
+    if (type === 'image') {
+      const result = await this.generateImage(config, TEST_IMAGE_PROMPT);
+      if (!result) throw new Error(t('connection_no_image'));
+      return t('connection_ok_image');
+    }
+    await this.chat(config, [{ role: 'user', content: 'hi' }]);
+    return t('connection_ok');
+  }
+};
+
+// --- Anthropic Messages API ---
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+function anthropicHeaders(apiKey: string) {
+  return {
+    'Content-Type': 'application/json',
+    'x-api-key': apiKey,
+    'anthropic-version': ANTHROPIC_VERSION
+  };
+}
+
+function reportAnthropicUsage(usage: any, onUsage?: (usage: Usage) => void) {
+  if (usage && onUsage) onUsage({ promptTokens: usage.input_tokens, completionTokens: usage.output_tokens });
+}
+
+// Tool calls and results become content blocks; everything else stays plain text
+function toAnthropicContent(msg: any) {
+  if (msg.role === 'tool') return [{ type: 'tool_result', tool_use_id: msg.tool_call_id, content: msg.content }];
+  const content = typeof msg.content === 'string' ? msg.content : JSON.stringify(msg.content);
+  if (!msg.tool_calls) return content;
+  return [
+    ...(content ? [{ type: 'text', text: content }] : []),
+    ...msg.tool_calls.map((c: ToolCall) => ({ type: 'tool_use', id: c.id, name: c.name, input: c.arguments }))
+  ];
+}
+
+function toBlocks(content: string | any[]) {
+  return typeof content === 'string' ? (content ? [{ type: 'text', text: content }] : []) : content;
+}
+
+// Anthropic wants alternating user/assistant turns starting with the user
+function toAnthropicMessages(messages: any[]) {
+  const result: any[] = [];
+  for (const msg of messages) {
+    const role = msg.role === 'assistant' ? 'assistant' : 'user';
+    const content = toAnthropicContent(msg);
+    const last = result[result.length - 1];
+    if (last && last.role === role) {
+      last.content = typeof last.content === 'string' && typeof content === 'string'
+        ? `${last.content}\n\n${content}`
+        : [...toBlocks(last.content), ...toBlocks(content)];
+    } else {
+      result.push({ role, content });
+    }
+  }
+  if (result.length > 0 && result[0].role !== 'user') {
+    result.unshift({ role: 'user', content: '(conversation continues)' });
+  }
+  return result;
+}
+
+const anthropicProvider: LLMProvider = {
+  id: 'anthropic',
+  name: 'Anthropic',
+  async chat(config, messages, options = {}) {
+    const baseURL = normalizeBaseURL(config.baseURL || 'https://api.anthropic.com');
+    const { system, rest } = splitSystem(messages);
+    const response = await fetch(`${baseURL}/v1/messages`, {
+      method: 'POST',
+      signal: options.signal,
+      headers: anthropicHeaders(config.apiKey),
+      body: JSON.stringify({
+        model: config.model || DEFAULT_MODELS.anthropic.chat,
+        max_tokens: 1024,
+        ...(system ? { system } : {}),
+        messages: toAnthropicMessages(rest),
+        ...(options.temperature !== undefined ? { temperature: options.temperature } : {}),
+        ...(options.tools?.length ? { tools: options.tools.map(t => ({ name: t.name, description: t.description, input_schema: t.parameters })) } : {}),
+        ...(options.onDelta ? { stream: true } : {})
+      })
+    });
+    if (!response.ok) {
+      throw await readErrorResponse(response);
+    }
+
+    if (options.onDelta) {
+      let text = '';
+      // Input tokens arrive with message_start, the output count with message_delta
+      const usage: any = {};
+      // tool_use blocks by content index; their input streams as partial JSON
+      const toolBlocks: Record<number, { id: string; name: string; json: string }> = {};
+      await readLines(response, (line) => {
+        if (!line.startsWith('data:')) return;
+        try {
+          const event = JSON.parse(line.slice(5).trim());
+          if (event.type === 'message_start') Object.assign(usage, event.message?.usage);
+          if (event.type === 'message_delta') Object.assign(usage, event.usage);
+          if (event.type === 'content_block_start' && event.content_block?.type === 'tool_use') {
+            toolBlocks[event.index] = { id: event.content_block.id, name: event.content_block.name, json: '' };
+          }
+          if (event.type === 'content_block_delta' && event.delta?.type === 'input_json_delta' && toolBlocks[event.index]) {
+            toolBlocks[event.index].json += event.delta.partial_json;
+          }
+          if (event.type === 'content_block_delta' && event.delta?.text) {
+            text += event.delta.text;
+            options.onDelta(event.delta.text);
+          }
+          if (event.type === 'message_stop') return false;
+        } catch (e) {}
+      });
+      reportAnthropicUsage(usage, options.onUsage);
+      reportToolCalls(Object.values(toolBlocks).map(b => ({ id: b.id, name: b.name, arguments: parseToolArguments(b.json) })), options.onToolCalls);
+      return text;
+    }
+
+    const data = await response.json();
+    reportAnthropicUsage(data.usage, options.onUsage);
+    reportToolCalls((data.content || []).filter((b: any) => b.type === 'tool_use').map((b: any) => ({ id: b.id, name: b.name, arguments: b.input || {} })),
+      options.onToolCalls);
+    return (data.content || []).filter((b: any) => b.type === 'text').map((b: any) => b.text).join('');
+  },
+  async describeImage(config, prompt, image, options = {}) {
+    const baseURL = normalizeBaseURL(config.baseURL || 'https://api.anthropic.com');
+    const { mimeType, data: imageData } = splitDataUrl(image);
+    const response = await fetch(`${baseURL}/v1/messages`, {
+      method: 'POST',
+      signal: options.signal,
+      headers: anthropicHeaders(config.apiKey),
+      body: JSON.stringify({
+        model: config.model || DEFAULT_MODELS.anthropic.vision,
+        max_tokens: 1024,
+        messages: [{
+          role: 'user',
+          content: [
+            { type: 'image', source: { type: 'base64', media_type: mimeType, data: imageData } },
+            { type: 'text', text: prompt }
+          ]
+        }]
+      })
+    });
+    if (!response.ok) {
+      throw await readErrorResponse(response);
+    }
+    const data = await response.json();
+    reportAnthropicUsage(data.usage, options.onUsage);
+    return (data.content || []).filter((b: any) => b.type === 'text').map((b: any) => b.text).join('');
+  },
+  async generateImage() {
+    throw new Error(t('no_image_support', { provider: 'Anthropic' }));
+  },
+  async listModels(config) {
+    const baseURL = normalizeBaseURL(config.baseURL || 'https://api.anthropic.com');
+    const response = await fetch(`${baseURL}/v1/models`, { headers: anthropicHeaders(config.apiKey) });
+    if (!response.ok) {
+      throw await readErrorResponse(response);
+    }
+    const data = await response.json();
+    return (data.data || []).map((m: any) => m.id);
+  },
+  async testConnection(config, type) {
+    if (type === 'image') throw new Error(t('no_image_support', { provider: 'Anthropic' }));
+    await this.chat(config, [{ role: 'user', content: 'hi' }]);
+    return t('connection_ok');
+  }
+};
+
+// --- Ollama native API ---
+
+function reportOllamaUsage(data: any, onUsage?: (usage: Usage) => void) {
+  if (data && onUsage && data.prompt_eval_count !== undefined) onUsage({ promptTokens: data.prompt_eval_count, completionTokens: data.eval_count });
+}
+
+function toOllamaMessage(msg: any) {
+  if (msg.role === 'tool') return { role: 'tool', content: msg.content, tool_name: msg.name };
+  return {
+    role: msg.role,
+    content: typeof msg.content === 'string' ? msg.content : JSON.stringify(msg.content),
+    ...(msg.tool_calls ? { tool_calls: msg.tool_calls.map((c: ToolCall) => ({ function: { name: c.name, arguments: c.arguments } })) } : {})
+  };
+}
+
+function readOllamaToolCalls(toolCalls: any[]): ToolCall[] {
+  return (toolCalls || []).filter(c => c?.function?.name).map(c => ({
+    id: toolCallId(),
+    name: c.function.name,
+    arguments: parseToolArguments(c.function.arguments)
+  }));
+}
+
+const ollamaProvider: LLMProvider = {
+  id: 'ollama',
+  name: 'Ollama',
+  async chat(config, messages, options = {}) {
+    const baseURL = normalizeBaseURL(config.baseURL || 'http://localhost:11434');
+    const response = await fetch(`${baseURL}/api/chat`, {
+      method: 'POST',
+      signal: options.signal,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: config.model || DEFAULT_MODELS.ollama.chat,
+        messages: messages.map(toOllamaMessage),
+        stream: !!options.onDelta,
+        ...(options.responseSchema ? { format: options.responseSchema } : {}),
+        ...(options.tools?.length ? { tools: options.tools.map(t => ({ type: 'function', function: { name: t.name, description: t.description, parameters: t.parameters } })) } : {}),
+        ...(options.temperature !== undefined ? { options: { temperature: options.temperature } } : {})
+      })
+    });
+    if (!response.ok) {
+      throw await readErrorResponse(response);
+    }
+
+    if (options.onDelta) {
+      let text = '';
+      const toolCalls: ToolCall[] = [];
+      await readLines(response, (line) => {
+        try {
+          const chunk = JSON.parse(line);
+          if (chunk.message?.content) {
+            text += chunk.message.content;
+            options.onDelta(chunk.message.content);
+          }
+          toolCalls.push(...readOllamaToolCalls(chunk.message?.tool_calls));
+          if (chunk.done) {
+            reportOllamaUsage(chunk, options.onUsage);
+            return false;
+          }
+        } catch (e) {}
+      });
+      reportToolCalls(toolCalls, options.onToolCalls);
+      return text;
+    }
+
+    const data = await response.json();
+    reportOllamaUsage(data, options.onUsage);
+    reportToolCalls(readOllamaToolCalls(data.message?.tool_calls), options.onToolCalls);
+    return data.message?.content || '';
+  },
+  async describeImage(config, prompt, image, options = {}) {
+    const baseURL = normalizeBaseURL(config.baseURL || 'http://localhost:11434');
+    const response = await fetch(`${baseURL}/api/chat`, {
+      method: 'POST',
+      signal: options.signal,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: config.model || DEFAULT_MODELS.ollama.vision,
+        messages: [{ role: 'user', content: prompt, images: [splitDataUrl(image).data] }],
+        stream: false
+      })
+    });
+    if (!response.ok) {
+      throw await readErrorResponse(response);
+    }
+    const data = await response.json();
+    reportOllamaUsage(data, options.onUsage);
+    return data.message?.content || '';
+  },
+  async generateImage() {
+    throw new Error(t('no_image_support', { provider: 'Ollama' }));
+  },
+  async listModels(config) {
+    const baseURL = normalizeBaseURL(config.baseURL || 'http://localhost:11434');
+    const response = await fetch(`${baseURL}/api/tags`);
+    if (!response.ok) {
+      throw await readErrorResponse(response);
+    }
+    const data = await response.json();
+    return (data.models || []).map((m: any) => m.name);
+  },
+  async testConnection(config, type) {
+    if (type === 'image') throw new Error(t('no_image_support', { provider: 'Ollama' }));
+    await this.chat(config, [{ role: 'user', content: 'hi' }]);
+    return t('connection_ok');
+  }
+};
+
+// --- Registry ---
+
+const providers = new Map<string, LLMProvider>();
+
+export function registerProvider(provider: LLMProvider) {
+  providers.set(provider.id, provider);
+}
+
+registerProvider(openaiProvider);
+registerProvider(geminiProvider);
+registerProvider(anthropicProvider);
+registerProvider(ollamaProvider);
+
+export function getProvider(id: string) {
+  const provider = providers.get(id);
+  if (!provider) throw new Error(t('unknown_provider', { id }));
+  return provider;
+}
+
+export function listProviders() {
+  return Array.from(providers.values()).map(p => ({ id: p.id, name: p.name, defaultModels: DEFAULT_MODELS[p.id] || {} }));
+}
+
+function isAudioPurpose(purpose: ProviderPurpose) {
+  return purpose === 'transcription' || purpose === 'speech';
+}
+
+// Whether a resolved provider can serve the purpose at all: it needs its credentials (custom
+// OpenAI-compatible vision and audio endpoints may run without a key) and, for audio, the capability
+function isUsable(provider: LLMProvider, config: ProviderConfig, purpose: ProviderPurpose) {
+  if (purpose === 'transcription' && !provider.transcribe) return false;
+  if (purpose === 'speech' && !provider.speak) return false;
+  if (provider.id === 'ollama') return true;
+  if (provider.id === 'openai') return !!config.baseURL && (!!config.apiKey || purpose === 'vision' || isAudioPurpose(purpose));
+  return !!config.apiKey;
+}
+
+// Pick the provider and its config for a purpose from the settings table.
+// Without an explicit `<purpose>_provider`, keep the old behaviour: a custom URL means
+// OpenAI compatible, otherwise Gemini with the server's GEMINI_API_KEY.
+export function resolveProvider(settings: any, purpose: ProviderPurpose) {
+  const baseURL = settings[`${purpose}_api_url`];
+  const apiKey = settings[`${purpose}_api_key`];
+  const model = settings[`${purpose}_model`];
+  const explicit = settings[`${purpose}_provider`];
+
+  if (explicit) {
+    const provider = getProvider(explicit);
+    const config: ProviderConfig = { apiKey, baseURL, model };
+    if (provider.id === 'gemini') config.apiKey = apiKey || process.env.GEMINI_API_KEY;
+    return { provider, config };
+  }
+
+  const useCustom = purpose === 'vision' || isAudioPurpose(purpose) ? !!baseURL : !!(baseURL && apiKey);
+  if (useCustom) {
+    return { provider: openaiProvider, config: { apiKey, baseURL, model } };
+  }
+  // The chat model setting belongs to the custom endpoint, so implicit Gemini chat uses the default model
+  return {
+    provider: geminiProvider,
+    config: { apiKey: process.env.GEMINI_API_KEY, model: purpose === 'chat' ? undefined : model }
+  };
+}
+
+// `<purpose>_fallbacks` setting: JSON array of { provider, api_url, api_key, model } tried in order
+// after the primary provider, e.g. [{ "provider": "gemini" }] falls back to the server's Gemini key
+export function parseFallbacks(value: any): { provider: string; api_url?: string; api_key?: string; model?: string }[] {
+  const list = typeof value === 'string' ? (value ? JSON.parse(value) : []) : (value || []);
+  if (!Array.isArray(list)) throw new Error(t('fallbacks_not_array'));
+  return list.map((entry: any) => {
+    if (!entry || typeof entry.provider !== 'string') throw new Error(t('fallback_needs_provider'));
+    getProvider(entry.provider);
+    return { provider: entry.provider, api_url: entry.api_url || undefined, api_key: entry.api_key || undefined, model: entry.model || undefined };
+  });
+}
+
+// The primary provider followed by the configured fallbacks that are usable, without duplicates
+export function resolveProviderChain(settings: any, purpose: ProviderPurpose) {
+  const chain = [resolveProvider(settings, purpose)];
+  let fallbacks: ReturnType<typeof parseFallbacks> = [];
+  try {
+    fallbacks = parseFallbacks(settings[`${purpose}_fallbacks`]);
+  } catch (e: any) {
+    console.warn(`Ignoring invalid ${purpose}_fallbacks setting:`, e.message);
+  }
+  for (const entry of fallbacks) {
+    const provider = getProvider(entry.provider);
+    const config: ProviderConfig = { apiKey: entry.api_key, baseURL: entry.api_url, model: entry.model };
+    if (provider.id === 'gemini') config.apiKey = entry.api_key || process.env.GEMINI_API_KEY;
+    if (!isUsable(provider, config, purpose)) continue;
+    const duplicate = chain.some(c => c.provider.id === provider.id && c.config.baseURL === config.baseURL && c.config.model === config.model);
+    if (!duplicate) chain.push({ provider, config });
+  }
+  return chain;
+}
+
+// Whether a purpose has anything usable configured: the same providers calls go to (primary and
+// fallbacks), so feature gating and the call path agree
+export function isProviderConfigured(settings: any, purpose: ProviderPurpose) {
+  return resolveProviderChain(settings, purpose).some(({ provider, config }) => isUsable(provider, config, purpose));
+}
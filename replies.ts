@@ -0,0 +1,257 @@
+// Reply parsing shared by every generation route. A reply is a list of typed parts, produced either
+// as structured JSON (setting reply_format = 'json', enforced through the provider's schema support)
+// or with the text markers [NEXT], "|||", [sticker:id] and [生图: prompt], which stay the fallback.
+
+export type ReplyPartType = 'narration' | 'text' | 'sticker' | 'image' | 'delay';
+
+export interface ReplyPart {
+  type: ReplyPartType;
+  content?: string; // narration, text
+  sticker_id?: string; // sticker
+  prompt?: string; // image
+  delay_ms?: number; // delay: pause before the next part
+}
+
+export const MAX_DELAY_MS = 5000;
+
+export const REPLY_SCHEMA = {
+  type: 'object',
+  properties: {
+    parts: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: ['narration', 'text', 'sticker', 'image', 'delay'] },
+          content: { type: 'string', description: 'Narration or message text' },
+          sticker_id: { type: 'string', description: 'ID of one of your stickers' },
+          prompt: { type: 'string', description: 'English prompt for an image to generate' },
+          delay_ms: { type: 'integer', description: 'Pause before the next part in milliseconds' }
+        },
+        required: ['type']
+      }
+    }
+  },
+  required: ['parts']
+};
+
+export function isStructured(settings: any) {
+  return settings.reply_format === 'json';
+}
+
+// Appended to the system prompt in JSON mode; replaces the marker instructions of the templates
+export function formatInstruction(mode?: string) {
+  return `OUTPUT FORMAT (this overrides any instructions about [NEXT], "|||", [sticker:...] or [生图:...] markers above):
+Respond with JSON only: {"parts": [...]}. Each part is one of
+- {"type": "text", "content": "..."}: one chat message; use several text parts to send several messages in a row
+- {"type": "sticker", "sticker_id": "..."}: one of your stickers, by ID
+- {"type": "image", "prompt": "..."}: an image to generate, described in English
+- {"type": "delay", "delay_ms": 1500}: a pause before the next message
+${mode === 'scenario' ? '- {"type": "narration", "content": "..."}: your actions, feelings or the environment. Start with exactly one narration part.' : ''}`.trim();
+}
+
+const MARKERS = /\[sticker:(.*?)\]|\[生图:\s*(.*?)\]/g;
+
+// One marker-format message: text with any number of sticker and image tags, kept in order
+export function splitMarkers(text: string): ReplyPart[] {
+  const parts: ReplyPart[] = [];
+  const pushText = (chunk: string) => {
+    const content = chunk.trim();
+    if (content) parts.push({ type: 'text', content });
+  };
+  let last = 0;
+  for (const match of text.matchAll(MARKERS)) {
+    pushText(text.slice(last, match.index));
+    if (match[1] !== undefined) parts.push({ type: 'sticker', sticker_id: match[1].trim() });
+    else if (match[2]) parts.push({ type: 'image', prompt: match[2].trim() });
+    last = match.index + match[0].length;
+  }
+  pushText(text.slice(last));
+  return parts;
+}
+
+// Validate one part of a structured reply; text parts may still carry markers
+function normalizePart(raw: any): ReplyPart[] {
+  if (!raw || typeof raw !== 'object') return [];
+  const content = typeof raw.content === 'string' ? raw.content.trim() : '';
+  switch (raw.type) {
+    case 'narration':
+      return content ? [{ type: 'narration', content }] : [];
+    case 'text':
+      return splitMarkers(content);
+    case 'sticker': {
+      const id = String(raw.sticker_id || content || '').replace(/^\[sticker:|\]$/g, '').trim();
+      return id ? [{ type: 'sticker', sticker_id: id }] : [];
+    }
+    case 'image': {
+      const prompt = String(raw.prompt || content || '').trim();
+      return prompt ? [{ type: 'image', prompt }] : [];
+    }
+    case 'delay': {
+      const delay = Number(raw.delay_ms);
+      return Number.isFinite(delay) && delay > 0 ? [{ type: 'delay', delay_ms: Math.min(delay, MAX_DELAY_MS) }] : [];
+    }
+    default:
+      return content ? splitMarkers(content) : [];
+  }
+}
+
+// Marker format, incremental: narration before "|||" in scenario mode, then [NEXT] / blank-line separated messages
+function createMarkerParser(mode: string, responderName: string, onPart: (part: ReplyPart) => void) {
+  let buffer = '';
+  let inDialogue = mode !== 'scenario';
+  let closed = false;
+  let cleaned = false;
+
+  // Remove [Name]: prefix if AI ignores instruction (only at the very start of the reply)
+  const clean = (text: string) => {
+    if (cleaned) return text;
+    cleaned = true;
+    const prefixed = responderName ? text.replace(new RegExp(`^${responderName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}:?\\s*`), '') : text;
+    return prefixed.replace(/^\[(?!sticker:|生图)[^\]]*\]:?\s*/, '');
+  };
+
+  const flushParts = (final: boolean) => {
+    const pieces = buffer.split(/\[NEXT\]|\n\n+/);
+    buffer = final ? '' : pieces.pop() || '';
+    for (const piece of pieces) {
+      splitMarkers(clean(piece)).forEach(onPart);
+    }
+  };
+
+  return {
+    push(delta: string) {
+      if (closed) return;
+      buffer += delta;
+      if (!inDialogue) {
+        const idx = buffer.indexOf('|||');
+        if (idx === -1) return;
+        const narration = clean(buffer.slice(0, idx)).trim();
+        if (narration) onPart({ type: 'narration', content: narration });
+        buffer = buffer.slice(idx + 3);
+        inDialogue = true;
+      }
+      // Scenario replies only keep the first dialogue block after the narration
+      if (mode === 'scenario') {
+        const idx = buffer.indexOf('|||');
+        if (idx !== -1) {
+          buffer = buffer.slice(0, idx);
+          closed = true;
+          flushParts(true);
+          return;
+        }
+      }
+      flushParts(false);
+    },
+    end() {
+      if (closed) return;
+      closed = true;
+      flushParts(true);
+    }
+  };
+}
+
+// JSON format, incremental: every object inside the parts array is emitted as soon as it closes.
+// Accepts {"parts": [...]}, a bare array, and code fences around either.
+function createJsonParser(onPart: (part: ReplyPart) => void) {
+  let text = '';
+  let pos = 0;
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let objectStart = -1;
+  let objectDepth = 0;
+  let emitted = 0;
+
+  return {
+    push(delta: string) {
+      text += delta;
+      for (; pos < text.length; pos++) {
+        const ch = text[pos];
+        if (inString) {
+          if (escaped) escaped = false;
+          else if (ch === '\\') escaped = true;
+          else if (ch === '"') inString = false;
+          continue;
+        }
+        if (ch === '"') inString = true;
+        else if (ch === '{' || ch === '[') {
+          stack.push(ch);
+          // A part: an object directly inside the top-level array or the array inside the root object
+          if (ch === '{' && objectStart === -1 && stack.length <= 3 && stack[stack.length - 2] === '[') {
+            objectStart = pos;
+            objectDepth = stack.length;
+          }
+        } else if (ch === '}' || ch === ']') {
+          stack.pop();
+          if (ch === '}' && objectStart !== -1 && stack.length === objectDepth - 1) {
+            try {
+              normalizePart(JSON.parse(text.slice(objectStart, pos + 1))).forEach(part => {
+                emitted++;
+                onPart(part);
+              });
+            } catch (e) {}
+            objectStart = -1;
+          }
+        }
+      }
+    },
+    get emitted() {
+      return emitted;
+    }
+  };
+}
+
+// One parser for streamed and complete replies. In structured mode the reply is read as JSON when
+// it starts like JSON, otherwise (or when no part could be read) with the marker parser.
+export function createReplyParser(options: { structured?: boolean; mode?: string; responderName?: string }, onPart: (part: ReplyPart) => void) {
+  const markers = createMarkerParser(options.mode || 'chat', options.responderName || '', onPart);
+  if (!options.structured) return markers;
+
+  const json = createJsonParser(onPart);
+  let buffer = ''; // The whole reply, for the fallback
+  let format: 'json' | 'markers' | null = null;
+  const detect = () => {
+    // Still possibly an opening code fence
+    if (/^`{1,3}(j(s(on?)?)?)?$/.test(buffer.trimStart())) return null;
+    const start = buffer.replace(/^\s*(```(?:json)?\s*)?/, '');
+    if (!start) return null;
+    return /^(\{|\[\s*[\{\]])/.test(start) ? 'json' : (/^\[\s*$/.test(start) ? null : 'markers');
+  };
+
+  return {
+    push(delta: string) {
+      buffer += delta;
+      if (format === 'json') return json.push(delta);
+      if (format === 'markers') return markers.push(delta);
+      format = detect();
+      if (format === 'json') json.push(buffer);
+      if (format === 'markers') markers.push(buffer);
+    },
+    end() {
+      if (format === 'json' && json.emitted > 0) return;
+      // Not the expected shape: a single part object, or plain text after all
+      if (format === 'json') {
+        try {
+          const parts = normalizePart(JSON.parse(buffer.replace(/^\s*```(?:json)?|```\s*$/g, '')));
+          if (parts.length > 0) return parts.forEach(onPart);
+        } catch (e) {}
+      }
+      if (format !== 'markers') markers.push(buffer);
+      markers.end();
+    }
+  };
+}
+
+export function parseReply(text: string, options: { structured?: boolean; mode?: string; responderName?: string } = {}) {
+  const parts: ReplyPart[] = [];
+  const parser = createReplyParser(options, part => parts.push(part));
+  parser.push(text || '');
+  parser.end();
+  return parts;
+}
+
+// Plain text of a reply, for routes that store a single text (comments, moments)
+export function replyText(parts: ReplyPart[]) {
+  return parts.filter(p => p.type === 'text' || p.type === 'narration').map(p => p.content).join('\n');
+}
@@ -0,0 +1,81 @@
+import { t } from './language';
+
+// Retries for model calls: exponential backoff honoring Retry-After, and a per-attempt timeout
+// through AbortController. Provider fallback chains are walked by the caller (server.ts).
+
+export interface RetryPolicy {
+  attempts: number; // Including the first try
+  baseDelayMs: number;
+  maxDelayMs: number; // A longer Retry-After gives up so the next provider can answer
+  timeoutMs: number; // Without any progress; streaming output resets it
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { attempts: 3, baseDelayMs: 1000, maxDelayMs: 30 * 1000, timeoutMs: 60 * 1000 };
+const IMAGE_TIMEOUT_MS = 120 * 1000; // Image models are slow
+const MAX_ATTEMPTS = 10;
+
+export class TimeoutError extends Error {
+  constructor(ms: number) {
+    super(t('timeout', { seconds: Math.round(ms / 1000) }));
+    this.name = 'TimeoutError';
+  }
+}
+
+function positive(value: any, fallback: number) {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+// Settings: retry_attempts, retry_base_delay_ms, request_timeout_ms
+export function retryPolicy(settings: any, purpose?: string): RetryPolicy {
+  return {
+    attempts: Math.min(Math.floor(positive(settings.retry_attempts, DEFAULT_RETRY_POLICY.attempts)), MAX_ATTEMPTS),
+    baseDelayMs: positive(settings.retry_base_delay_ms, DEFAULT_RETRY_POLICY.baseDelayMs),
+    maxDelayMs: DEFAULT_RETRY_POLICY.maxDelayMs,
+    timeoutMs: positive(settings.request_timeout_ms, purpose === 'image' ? IMAGE_TIMEOUT_MS : DEFAULT_RETRY_POLICY.timeoutMs)
+  };
+}
+
+// Rate limits, server errors, timeouts and network failures are worth another try; other 4xx are not
+export function isRetryable(err: any) {
+  if (err instanceof TimeoutError) return true;
+  const status = Number(err?.status);
+  if (status) return status === 408 || status === 425 || status === 429 || status >= 500;
+  const code = err?.cause?.code || err?.code;
+  return (err?.name === 'TypeError' && /fetch failed/i.test(err.message)) || ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'UND_ERR_SOCKET'].includes(code);
+}
+
+// Milliseconds to wait before the next attempt, or null when Retry-After asks for too long
+function backoff(attempt: number, err: any, policy: RetryPolicy) {
+  if (typeof err?.retryAfterMs === 'number') return err.retryAfterMs <= policy.maxDelayMs ? err.retryAfterMs : null;
+  const delay = Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+  return delay + Math.random() * delay * 0.25;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Run `call` until it succeeds or the policy gives up. `keepAlive` restarts the timeout (call it on
+// streamed output); `canRetry` returning false makes the current error final (e.g. output already sent).
+export async function withRetry<T>(policy: RetryPolicy, call: (signal: AbortSignal, keepAlive: () => void) => Promise<T>,
+  canRetry: () => boolean = () => true): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout;
+    const keepAlive = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => controller.abort(), policy.timeoutMs);
+    };
+    keepAlive();
+    try {
+      return await call(controller.signal, keepAlive);
+    } catch (e) {
+      const err = controller.signal.aborted ? new TimeoutError(policy.timeoutMs) : e;
+      const delay = attempt < policy.attempts && canRetry() && isRetryable(err) ? backoff(attempt, err, policy) : null;
+      if (delay === null) throw err;
+      console.warn(`Model call failed (attempt ${attempt}/${policy.attempts}), retrying in ${Math.round(delay)}ms:`, err.message);
+      await sleep(delay);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
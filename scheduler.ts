@@ -0,0 +1,221 @@
+import db from './db';
+import { v4 as uuidv4 } from 'uuid';
+import { isOverBudget } from './usage';
+
+// Server-side scheduler for proactive messages. Every character gets a schedule (stored in
+// character_schedules, or derived from its reply_strategy / relationship when none is stored).
+
+// How eagerly a character writes on its own; 'manual' characters do not even answer the user by themselves
+export const REPLY_STRATEGIES = ['active', 'normal', 'passive', 'manual'];
+
+const TICK_MS = 10 * 1000;
+const MAX_SCHEDULE_AHEAD_MS = 30 * 24 * 60 * 60 * 1000; // Scheduled messages at most 30 days out
+
+export interface Schedule {
+  character_id: string;
+  enabled: boolean;
+  interval_seconds: number; // Minimum silence before the character may speak again
+  probability: number; // Chance to speak once the interval has passed (checked every tick)
+  active_start: string | null; // 'HH:MM', only speak inside this window
+  active_end: string | null;
+  quiet_start: string | null; // 'HH:MM', never speak inside this window (do not disturb)
+  quiet_end: string | null;
+  max_unanswered: number; // Give up after this many proactive messages without a user reply
+  is_default?: boolean;
+}
+
+const SCHEDULE_FIELDS = ['enabled', 'interval_seconds', 'probability', 'active_start', 'active_end', 'quiet_start', 'quiet_end', 'max_unanswered'];
+
+// The interval table the client-side trigger used to hardcode
+export function defaultSchedule(character: any): Schedule {
+  const strategy = character.reply_strategy || 'normal';
+  let interval = 60; // Default 60s
+  let probability = 0.5;
+
+  if (strategy === 'active') {
+    interval = 10; // 10s for active
+    probability = 0.8;
+  } else if (strategy === 'passive') {
+    interval = 600; // 10m for passive
+    probability = 0.2;
+  } else {
+    // Normal strategy, check relationship
+    const rel = (character.relationship || '').toLowerCase();
+    if (rel.includes('lover') || rel.includes('partner') || rel.includes('wife') || rel.includes('husband')) {
+      interval = 30; // 30s for close relationships
+    } else if (rel.includes('stranger')) {
+      interval = 300; // 5m for strangers
+    }
+  }
+
+  return {
+    character_id: character.id,
+    enabled: strategy !== 'manual',
+    interval_seconds: interval,
+    probability,
+    active_start: null,
+    active_end: null,
+    quiet_start: null,
+    quiet_end: null,
+    max_unanswered: 3,
+    is_default: true
+  };
+}
+
+export function getSchedule(character: any): Schedule {
+  const defaults = defaultSchedule(character);
+  const row = db.prepare('SELECT * FROM character_schedules WHERE character_id = ?').get(character.id) as any;
+  if (!row) return defaults;
+
+  const schedule: any = { ...defaults, is_default: false };
+  for (const field of SCHEDULE_FIELDS) {
+    if (row[field] !== null && row[field] !== undefined) schedule[field] = row[field];
+  }
+  schedule.enabled = !!schedule.enabled;
+  return schedule;
+}
+
+function isValidTime(value: any) {
+  return value === null || (typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value));
+}
+
+export function saveSchedule(characterId: string, fields: any) {
+  for (const field of ['active_start', 'active_end', 'quiet_start', 'quiet_end']) {
+    if (fields[field] !== undefined && !isValidTime(fields[field])) {
+      throw new Error(`${field} must be HH:MM or null`);
+    }
+  }
+  if (fields.probability !== undefined && (fields.probability < 0 || fields.probability > 1)) {
+    throw new Error('probability must be between 0 and 1');
+  }
+
+  const existing = db.prepare('SELECT * FROM character_schedules WHERE character_id = ?').get(characterId) as any || {};
+  const row: any = { character_id: characterId };
+  for (const field of SCHEDULE_FIELDS) {
+    row[field] = fields[field] !== undefined ? fields[field] : (existing[field] ?? null);
+  }
+  if (typeof row.enabled === 'boolean') row.enabled = row.enabled ? 1 : 0;
+
+  db.prepare(`INSERT OR REPLACE INTO character_schedules (character_id, ${SCHEDULE_FIELDS.join(', ')}, updated_at)
+    VALUES (?, ${SCHEDULE_FIELDS.map(() => '?').join(', ')}, ?)`)
+    .run(characterId, ...SCHEDULE_FIELDS.map(f => row[f]), new Date().toISOString());
+}
+
+function minutesOfDay(date: Date, timeZone?: string) {
+  const parts = new Intl.DateTimeFormat('en-GB', { hour: '2-digit', minute: '2-digit', hourCycle: 'h23', timeZone: timeZone || undefined })
+    .formatToParts(date);
+  const hour = Number(parts.find(p => p.type === 'hour')?.value || 0);
+  const minute = Number(parts.find(p => p.type === 'minute')?.value || 0);
+  return hour * 60 + minute;
+}
+
+function toMinutes(time: string) {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+}
+
+// Windows may wrap midnight, e.g. quiet hours 23:00-07:00
+function inWindow(minutes: number, start: string | null, end: string | null) {
+  if (!start || !end) return false;
+  const s = toMinutes(start);
+  const e = toMinutes(end);
+  return s <= e ? minutes >= s && minutes < e : minutes >= s || minutes < e;
+}
+
+// Proactive messages the user has not answered yet
+function countUnanswered(characterId: string) {
+  const lastUserMsg = db.prepare("SELECT timestamp FROM messages WHERE character_id = ? AND sender_id = 'user' ORDER BY timestamp DESC LIMIT 1").get(characterId) as any;
+  const row = db.prepare("SELECT count(*) as count FROM messages WHERE character_id = ? AND source = 'proactive' AND timestamp > ?")
+    .get(characterId, lastUserMsg?.timestamp || '') as any;
+  return row.count;
+}
+
+// Whether a character may send a proactive message right now (without the random roll)
+export function checkSchedule(character: any, settings: any, now: Date = new Date()) {
+  const schedule = getSchedule(character);
+  if (!schedule.enabled) return { due: false, reason: 'disabled', schedule };
+
+  const minutes = minutesOfDay(now, settings.timezone);
+  if (inWindow(minutes, schedule.quiet_start, schedule.quiet_end)) return { due: false, reason: 'quiet hours', schedule };
+  if (schedule.active_start && schedule.active_end && !inWindow(minutes, schedule.active_start, schedule.active_end)) {
+    return { due: false, reason: 'outside active hours', schedule };
+  }
+  if (countUnanswered(character.id) >= schedule.max_unanswered) return { due: false, reason: 'waiting for the user to reply', schedule };
+
+  const lastMsg = db.prepare('SELECT timestamp FROM messages WHERE character_id = ? ORDER BY timestamp DESC LIMIT 1').get(character.id) as any;
+  // If no messages, this is a good candidate to start a convo
+  if (lastMsg && now.getTime() - new Date(lastMsg.timestamp).getTime() <= schedule.interval_seconds * 1000) {
+    return { due: false, reason: 'spoke too recently', schedule };
+  }
+  return { due: true, reason: lastMsg ? 'interval passed' : 'no conversation yet', schedule };
+}
+
+// Shuffle characters and return the first one that is due and wins its probability roll
+export function pickDueCharacter(settings: any) {
+  const characters = db.prepare("SELECT * FROM characters WHERE is_group = 0").all() as any[];
+  const shuffled = characters.sort(() => 0.5 - Math.random());
+  for (const character of shuffled) {
+    const { due, reason, schedule } = checkSchedule(character, settings);
+    if (!due) continue;
+    if (reason === 'no conversation yet' || Math.random() < schedule.probability) return character;
+  }
+  return null;
+}
+
+// Messages a character promised to send later (schedule_message tool). The text is fixed when
+// scheduled, so delivery needs no model call.
+export function scheduleMessage(characterId: string, chatId: string, content: string, dueAt: Date) {
+  if (Number.isNaN(dueAt.getTime())) throw new Error('Invalid send time');
+  if (dueAt.getTime() - Date.now() > MAX_SCHEDULE_AHEAD_MS) throw new Error('Messages can be scheduled at most 30 days ahead');
+  const row = { id: uuidv4(), character_id: characterId, chat_id: chatId, content, due_at: dueAt.toISOString(), created_at: new Date().toISOString() };
+  db.prepare('INSERT INTO scheduled_messages (id, character_id, chat_id, content, due_at, created_at) VALUES (?, ?, ?, ?, ?, ?)')
+    .run(row.id, row.character_id, row.chat_id, row.content, row.due_at, row.created_at);
+  return row;
+}
+
+export function listScheduledMessages(chatId: string) {
+  return db.prepare('SELECT * FROM scheduled_messages WHERE chat_id = ? AND sent_at IS NULL ORDER BY due_at').all(chatId) as any[];
+}
+
+export function cancelScheduledMessage(id: string) {
+  return db.prepare('DELETE FROM scheduled_messages WHERE id = ? AND sent_at IS NULL').run(id).changes > 0;
+}
+
+// Claim due messages; they are marked sent first so each is delivered at most once
+function takeDueMessages(now: Date = new Date()) {
+  return db.transaction(() => {
+    const due = db.prepare('SELECT * FROM scheduled_messages WHERE sent_at IS NULL AND due_at <= ? ORDER BY due_at').all(now.toISOString()) as any[];
+    const mark = db.prepare('UPDATE scheduled_messages SET sent_at = ? WHERE id = ?');
+    due.forEach(m => mark.run(now.toISOString(), m.id));
+    return due;
+  })();
+}
+
+let timer: NodeJS.Timeout | null = null;
+let ticking = false;
+
+// Start the background loop; `send` generates and stores one proactive message, `deliver` stores
+// one scheduled message
+export function startScheduler(loadSettings: () => any, send: (character: any, settings: any) => Promise<any>,
+  deliver: (scheduled: any) => Promise<any>) {
+  if (timer) return;
+  timer = setInterval(async () => {
+    if (ticking) return;
+    ticking = true;
+    try {
+      // Promised messages go out even when proactive messages are off or the budget is spent
+      for (const scheduled of takeDueMessages()) {
+        await deliver(scheduled).catch(e => console.error("Scheduled Message Error:", e));
+      }
+
+      const settings = loadSettings();
+      if (settings.scheduler_enabled === 'false' || isOverBudget(settings)) return;
+      const character = pickDueCharacter(settings);
+      if (character) await send(character, settings);
+    } catch (e) {
+      console.error("Scheduler Error:", e);
+    } finally {
+      ticking = false;
+    }
+  }, TICK_MS);
+}
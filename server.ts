@@ -1,216 +1,810 @@
 import express from 'express';
 import { createServer as createViteServer } from 'vite';
-import { GoogleGenAI } from '@google/genai';
 import db from './db';
+import { getProvider, listProviders, resolveProviderChain, parseFallbacks, isProviderConfigured, ChatOptions, CallOptions, ToolCall, DEFAULT_MODELS, LLMProvider, ProviderConfig, ProviderPurpose } from './providers';
+import { retryPolicy, withRetry } from './retry';
+import { ReplyPart, REPLY_SCHEMA, isStructured, formatInstruction, createReplyParser, parseReply, replyText } from './replies';
+import { getMemories, createMemory, updateMemories } from './memory';
+import { getSchedule, saveSchedule, checkSchedule, pickDueCharacter, startScheduler, listScheduledMessages, cancelScheduledMessage, REPLY_STRATEGIES } from './scheduler';
+import { registerTool, listTools, getToolPermissions, saveToolPermissions, enabledTools, toolSpecs, runToolCall, requireString, MAX_TOOL_ROUNDS } from './tools';
+import { createBackup, validateBackup, restoreBackup } from './backup';
+import { requireAuth, authStatus, setup, login, logout, changePassword, announceSetupCode, isSecretSetting, decryptSecret, encryptStoredSecrets, saveSecretSetting, maskSetting, isMasked } from './auth';
+import { broadcast, subscribe } from './events';
+import { getLastTurn, listSwipes, saveSwipe, syncSwipe, stashTurn, selectSwipe } from './swipes';
+import { getMessagePage, search } from './history';
+import { pickNextSpeaker, buildDirectorVariables, directorMaxTurns, DIRECTOR_STRATEGIES, Utterance } from './director';
+import { storeMedia, storeDataUrl, toDataUrl, isMediaRef, readMedia, getMedia, getThumbnail, isAllowedMime, MediaTypeError } from './media';
+import { parseCard, mapCard, importCard, buildCard, buildCardPng } from './cards';
+import { USE_CASES, listTemplates, getTemplate, saveTemplate, resolveTemplate, renderTemplate, renderPrompt, buildCharacterVariables, replyLanguage, fillHistory, formatHistory } from './templates';
+import { LANGUAGES, AUTO_LANGUAGE, DEFAULT_LANGUAGE, isLanguageSetting, languageName, setServerLanguage, t } from './language';
+import { trackUsage, UsageMeta, listUsage, usageSummary, getPriceTable, parsePriceTable, getDailyBudget, isOverBudget } from './usage';
+import { listLorebooks, getLorebook, saveLorebook, deleteLorebook, listEntries, saveEntry, deleteEntry, buildLore, injectLore, exportLorebook, importLorebook } from './lorebook';
+import { listPersonas, getPersona, getDefaultPersona, getChatPersona, savePersona, setDefaultPersona, deletePersona, bindPersona, DEFAULT_PERSONA_AVATAR } from './personas';
+import { getMoment, getMomentAudience, canSeeMoment, setMomentVisibility, addLike, removeLike, countLikes, listLikers } from './moments';
+import { planContext, estimateTokens, countMessageTokens, parseContextSizes, recentMessages, fitHistory, MAX_HISTORY_MESSAGES } from './context';
+import { VOICE_MODES, isVoiceMode, voiceSpeed, shouldSpeak, wavDuration } from './voice';
 import { v4 as uuidv4 } from 'uuid';
 import path from 'path';
 import fs from 'fs';
 
-// Initialize Gemini (Default)
-const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
-
-// OpenAI Compatible Client Helper
-async function generateWithOpenAI(apiKey: string, baseURL: string, model: string, messages: any[], temperature: number = 0.7) {
-  const normalizedBaseURL = baseURL.replace(/\/+$/, '');
-  const url = `${normalizedBaseURL}/chat/completions`;
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`
-    },
-    body: JSON.stringify({
-      model,
-      messages,
-      temperature
-    })
+// Secrets come back decrypted
+function loadSettings() {
+  const settingsRows = db.prepare('SELECT * FROM settings').all() as any[];
+  const settings: any = {};
+  settingsRows.forEach(s => settings[s.key] = isSecretSetting(s.key) ? decryptSecret(s.value) : s.value);
+  return settings;
+}
+
+// Whether a secret posted to /api/settings is just the masked value GET /api/settings returned
+function isUnchangedSecret(settings: any, key: string, value: any) {
+  if (/_fallbacks$/.test(key)) {
+    try {
+      return JSON.stringify(parseFallbacks(value)) === JSON.stringify(parseFallbacks(maskSetting(key, settings[key])));
+    } catch (e) {
+      return false;
+    }
+  }
+  return value === maskSetting(key, settings[key] || '');
+}
+
+// Fallback entries without a new key keep the key stored for the same provider and URL
+function keepFallbackKeys(list: ReturnType<typeof parseFallbacks>, stored: string) {
+  let previous: ReturnType<typeof parseFallbacks> = [];
+  try {
+    previous = parseFallbacks(stored);
+  } catch (e) {}
+  return list.map(entry => {
+    if (entry.api_key && !isMasked(entry.api_key)) return entry;
+    const match = previous.find(p => p.provider === entry.provider && p.api_url === entry.api_url);
+    return { ...entry, api_key: match?.api_key };
   });
-  
-  if (!response.ok) {
-    const status = response.status;
-    const errText = await response.text();
-    let errorMessage = errText;
+}
+
+// Connection tests and model lists use the stored key of the purpose unless the client sends a new one
+function requestApiKey(key: any, purpose: string = 'chat') {
+  return key && !isMasked(key) ? key : loadSettings()[`${purpose}_api_key`];
+}
+
+// Call the purpose's providers in order (primary, then `<purpose>_fallbacks`), retrying each with
+// backoff; every attempt is logged. Once `canRetry` says output reached the client, errors are final.
+async function callProvider<T>(settings: any, purpose: ProviderPurpose, meta: UsageMeta, prompt: string | any[],
+  run: (provider: LLMProvider, config: ProviderConfig, options: CallOptions, keepAlive: () => void) => Promise<T>,
+  canRetry: () => boolean = () => true): Promise<T> {
+  const policy = retryPolicy(settings, purpose);
+  const chain = resolveProviderChain(settings, purpose);
+  const errors: string[] = [];
+  for (const { provider, config } of chain) {
+    const call = { provider: provider.id, model: config.model || DEFAULT_MODELS[provider.id]?.[purpose] || '', meta, prompt };
     try {
-      const errJson = JSON.parse(errText);
-      if (errJson.error) {
-        errorMessage = errJson.error.message || JSON.stringify(errJson.error);
-      } else if (errJson.message) {
-        errorMessage = errJson.message;
-      }
-    } catch (e) {}
-    throw new Error(`[HTTP ${status}] ${errorMessage}`);
+      return await withRetry(policy, (signal, keepAlive) => trackUsage(settings, call, onUsage => run(provider, config, { onUsage, signal }, keepAlive)), canRetry);
+    } catch (e: any) {
+      if (chain.length === 1 || !canRetry()) throw e;
+      errors.push(`${provider.name}: ${e.message}`);
+      console.warn(`${provider.name} failed for ${purpose}, trying the next provider:`, e.message);
+    }
   }
-  
-  const data = await response.json();
-  if (!data.choices || !data.choices[0]) {
-    throw new Error("API 响应格式错误: 缺少 choices");
+  throw new Error(errors.join('; '));
+}
+
+// Chat completion through the provider selected in settings
+async function chatCompletion(settings: any, messages: any[], options: ChatOptions = {}, meta: UsageMeta = { purpose: 'chat' }) {
+  // A streamed reply cannot be retried once deltas have reached the client
+  let streamed = false;
+  return callProvider(settings, 'chat', meta, messages, (provider, config, callOptions, keepAlive) => provider.chat(config, messages, {
+    ...options,
+    ...callOptions,
+    onDelta: options.onDelta && (delta => {
+      streamed = true;
+      keepAlive();
+      options.onDelta(delta);
+    })
+  }), () => !streamed);
+}
+
+// Single-prompt generation with whichever chat model is configured
+async function generateText(prompt: string, settings: any = loadSettings(), meta: UsageMeta = { purpose: 'chat' }) {
+  return chatCompletion(settings, [{ role: 'system', content: prompt }], {}, meta);
+}
+
+// The description is written in `language` (the reply language of the chat), since it goes into the history
+async function describeImage(settings: any, image: string, meta: Omit<UsageMeta, 'purpose'> = {}, language: string = DEFAULT_LANGUAGE) {
+  const data = toDataUrl(image);
+  const prompt = t('vision_prompt', { language: languageName(language), label: (LANGUAGES[language] || LANGUAGES[DEFAULT_LANGUAGE]).label }, language);
+  return callProvider(settings, 'vision', { ...meta, purpose: 'vision' }, prompt,
+    (provider, config, options) => provider.describeImage(config, prompt, data, options));
+}
+
+async function generateImage(settings: any, prompt: string, meta: Omit<UsageMeta, 'purpose'> = {}) {
+  return storeDataUrl(await callProvider(settings, 'image', { ...meta, purpose: 'image' }, prompt,
+    (provider, config, options) => provider.generateImage(config, prompt, options)));
+}
+
+// Transcript and duration (seconds) of a stored recording. Without a transcription endpoint, or when
+// it fails, the history gets a placeholder so the character still knows a voice message arrived.
+async function transcribeVoice(settings: any, audio: string, chatId: string) {
+  const media = readMedia(audio);
+  const duration = media ? wavDuration(media.data) : null;
+  const placeholder = { text: t('voice_untranscribed', {}, chatLanguage(chatId, settings)), duration };
+  if (!media || !isProviderConfigured(settings, 'transcription')) return placeholder;
+  try {
+    const result = await callProvider(settings, 'transcription', { purpose: 'transcription', chatId }, '', (provider, config, options) => {
+      if (!provider.transcribe) throw new Error(t('no_audio_support', { provider: provider.name }));
+      return provider.transcribe(config, media, options);
+    });
+    return result.text ? { text: result.text, duration: result.duration ?? duration } : placeholder;
+  } catch (e) {
+    console.error("Transcription Error:", e);
+    return placeholder;
   }
-  return data.choices[0].message.content;
 }
 
-async function describeImage(apiKey: string, model: string, base64Image: string) {
-  const ai = new GoogleGenAI({ apiKey });
-  const response = await ai.models.generateContent({
-    model: model || 'gemini-3-flash-preview',
-    contents: [
-      {
-        parts: [
-          { text: "请详细描述这张图片的内容，包括主体、动作、环境、氛围等。如果是表情包，请解释其含义。请用中文回答。" },
-          {
-            inlineData: {
-              mimeType: "image/png",
-              data: base64Image.split(',')[1] || base64Image
-            }
-          }
-        ]
-      }
-    ]
+// Speak a reply in the character's voice; returns the stored audio and its duration
+async function synthesizeSpeech(settings: any, character: any, text: string, chatId: string) {
+  const speech = await callProvider(settings, 'speech', { purpose: 'speech', characterId: character.id, chatId }, text, (provider, config, options) => {
+    if (!provider.speak) throw new Error(t('no_audio_support', { provider: provider.name }));
+    return provider.speak(config, text, { ...options, voice: character.voice_id || undefined, speed: voiceSpeed(character.voice_speed) });
   });
-  return response.text;
+  return { audio: storeMedia(speech.data, speech.mime), duration: wavDuration(speech.data) };
 }
 
-async function generateImage(apiKey: string, model: string, prompt: string) {
-  const ai = new GoogleGenAI({ apiKey });
-  const size = model?.includes('2k') ? "2K" : (model?.includes('4k') ? "4K" : "1K");
-  const response = await ai.models.generateContent({
-    model: model || 'gemini-2.5-flash-image',
-    contents: [{ parts: [{ text: prompt }] }],
-    config: {
-      imageConfig: {
-        aspectRatio: "1:1",
-        imageSize: size as any
-      }
+// Persist a system notice in a chat (e.g. a reply that failed) and notify connected clients
+function postSystemNotice(chatId: string, content: string) {
+  const notice = { id: uuidv4(), character_id: chatId, sender_id: 'system', sender_name: t('system_sender'), content, type: 'system', timestamp: new Date().toISOString() };
+  db.prepare('INSERT INTO messages (id, character_id, sender_id, sender_name, content, type, timestamp) VALUES (?, ?, ?, ?, ?, ?, ?)')
+    .run(notice.id, chatId, notice.sender_id, notice.sender_name, content, notice.type, notice.timestamp);
+  broadcast('message.created', notice);
+  return notice;
+}
+
+// Deliver a message a character scheduled with the schedule_message tool
+async function deliverScheduledMessage(scheduled: any) {
+  const character = db.prepare('SELECT * FROM characters WHERE id = ?').get(scheduled.character_id) as any;
+  if (!character) return null;
+  return storeReplyPart(scheduled.chat_id, character, { type: 'text', content: scheduled.content }, loadSettings(), new Date().toISOString(), 'scheduled');
+}
+
+// Resolve one reply part to a message (sticker -> its URL, image prompt -> generated image, text -> a
+// voice message when the character speaks) and store it. Returns null for parts that produce no
+// message. Shared by chat replies and one-shot messages.
+async function storeReplyPart(chatId: string, sender: any, part: ReplyPart, settings: any, timestamp: string, source?: string) {
+  let content = part.content;
+  let type: string = part.type;
+  let voice: { audio: string; duration: number | null } | null = null;
+  if (part.type === 'sticker') {
+    const sticker = db.prepare('SELECT url FROM stickers WHERE id = ?').get(part.sticker_id) as any;
+    if (!sticker) return null;
+    content = sticker.url;
+  } else if (part.type === 'image') {
+    if (!isProviderConfigured(settings, 'image')) return null;
+    try {
+      content = await generateImage(settings, part.prompt, { characterId: sender.id, chatId });
+    } catch (e) {
+      console.error("Image Gen Error:", e);
+      return null;
     }
-  });
-  
-  for (const part of response.candidates[0].content.parts) {
-    if (part.inlineData) {
-      return `data:image/png;base64,${part.inlineData.data}`;
+  }
+  if (part.type === 'delay' || !content) return null;
+
+  // A failed synthesis leaves the text as it is
+  if (part.type === 'text' && isProviderConfigured(settings, 'speech') && shouldSpeak(sender, lastUserMessageType(chatId))) {
+    try {
+      voice = await synthesizeSpeech(settings, sender, content, chatId);
+      type = 'voice';
+    } catch (e) {
+      console.error("Speech Error:", e);
+    }
+  }
+
+  const msg = { id: uuidv4(), character_id: chatId, sender_id: sender.id, sender_name: sender.name, sender_avatar: sender.avatar, content, type, timestamp,
+    audio: voice?.audio ?? null, audio_duration: voice?.duration ?? null };
+  db.prepare('INSERT INTO messages (id, character_id, sender_id, sender_name, sender_avatar, content, type, timestamp, source, audio, audio_duration) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)')
+    .run(msg.id, chatId, sender.id, sender.name, sender.avatar, content, type, timestamp, source ?? null, msg.audio, msg.audio_duration);
+  broadcast('message.created', msg);
+  return msg;
+}
+
+// Generate a one-shot character message (proactive, nudge) as reply parts in the configured format
+async function generateReply(prompt: string, settings: any, meta: UsageMeta): Promise<ReplyPart[]> {
+  const structured = isStructured(settings);
+  const text = structured
+    ? await chatCompletion(settings, [{ role: 'system', content: `${prompt}\n\n${formatInstruction()}` }], { responseSchema: REPLY_SCHEMA }, meta)
+    : await generateText(prompt, settings, meta);
+  const parts = parseReply(text, { structured });
+  return parts.length > 0 ? parts : [{ type: 'text', content: '...' }];
+}
+
+// Store reply parts one after another; delays only push back the following timestamps
+async function storeReplyParts(chatId: string, sender: any, parts: ReplyPart[], settings: any, source?: string) {
+  const stored: any[] = [];
+  let clock = Date.now();
+  for (const part of parts) {
+    if (part.type === 'delay') {
+      clock += part.delay_ms;
+      continue;
     }
+    const msg = await storeReplyPart(chatId, sender, part, settings, new Date(clock).toISOString(), source);
+    if (!msg) continue;
+    stored.push(msg);
+    clock += 100;
   }
-  return null;
+  return stored;
+}
+
+// Type of the user's latest message in a chat (voice_mode 'mirror' answers voice with voice)
+function lastUserMessageType(chatId: string) {
+  const row = db.prepare("SELECT type FROM messages WHERE character_id = ? AND sender_id = 'user' ORDER BY timestamp DESC LIMIT 1").get(chatId) as any;
+  return row?.type;
 }
 
-async function generateImageWithOpenAI(apiKey: string, baseURL: string, model: string, prompt: string) {
-  const normalizedBaseURL = baseURL.replace(/\/+$/, '');
-  const url = `${normalizedBaseURL}/images/generations`;
-  
-  const bodies = [
-    { model, prompt, n: 1, size: "1024x1024", response_format: 'b64_json' },
-    { model, prompt, n: 1, response_format: 'b64_json' },
-    { model, prompt, n: 1 }
-  ];
+// Reply language of a private chat or group as a whole (memories, image descriptions)
+function chatLanguage(chatId: string, settings: any) {
+  const chat = db.prepare('SELECT * FROM characters WHERE id = ?').get(chatId) as any;
+  return chat ? replyLanguage(chat, settings, chatId) : DEFAULT_LANGUAGE;
+}
 
-  let lastError = null;
-  let lastStatus = 0;
+// Refresh long-term memory for a chat in the background (skipped once the daily budget is spent)
+function scheduleMemoryUpdate(chatId: string) {
+  const settings = loadSettings();
+  if (isOverBudget(settings)) return;
+  updateMemories(chatId, prompt => generateText(prompt, settings, { purpose: 'memory', chatId }), false, chatLanguage(chatId, settings))
+    .catch(e => console.error("Memory Update Error:", e));
+}
 
-  for (const body of bodies) {
-    try {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKey}`
-        },
-        body: JSON.stringify(body)
-      });
+// Who answers in a group: 'natural' (the @mentioned, else one or two at random), 'all', 'mentioned' or the director
+const REPLY_MODES = ['natural', 'all', 'mentioned', 'director'];
+const PROVIDER_SETTINGS = ['chat_provider', 'vision_provider', 'image_provider', 'transcription_provider', 'speech_provider'];
 
-      if (response.ok) {
-        const data = await response.json();
-        if (data.data && data.data[0]) {
-          const imageData = data.data[0];
-          if (imageData.b64_json) return `data:image/png;base64,${imageData.b64_json}`;
-          if (imageData.url) return imageData.url;
-        }
-      } else {
-        lastStatus = response.status;
-        lastError = await response.text();
-        // If it's a 401 or 404, don't bother retrying with different body
-        if (lastStatus === 401 || lastStatus === 404) break;
-      }
-    } catch (e: any) {
-      lastError = e.message;
+// Error for an enum field that is not one of `choices`; unset or empty keeps the default
+function invalidChoice(field: string, value: any, choices: string[]) {
+  if (value === undefined || value === null || value === '' || choices.includes(value)) return null;
+  return t('invalid_choice', { field, choices: choices.join(', ') });
+}
+
+const MAX_MOMENT_IMAGES = 9; // Per moment, like WeChat
+const MAX_GENERATED_MOMENT_IMAGES = 4; // Each one is an image generation call
+
+// Like a moment and notify connected clients; false when the liker cannot see it or already liked it
+function likeMoment(momentId: string, likerId: string) {
+  if (!addLike(momentId, likerId)) return false;
+  broadcast('moment.liked', { moment_id: momentId, liker_id: likerId, likes: countLikes(momentId) });
+  return true;
+}
+
+// The user acts on a character's moment as the persona of their chat with it, on their own as the default
+function momentPersona(moment: any) {
+  return moment && moment.character_id !== 'user' ? getChatPersona(moment.character_id) : getDefaultPersona();
+}
+
+// Images of a moment in display order
+function getMomentImages(momentId: string) {
+  return db.prepare('SELECT id, url, prompt FROM moment_images WHERE moment_id = ? ORDER BY position').all(momentId) as any[];
+}
+
+// Image prompts for a character's moment, written by the chat model to match the post and the character's look
+async function generateMomentImagePrompts(character: any, content: string, count: number, settings: any) {
+  const prompt = renderPrompt('moment_image', [character.id], {
+    ...buildCharacterVariables(character, settings, [character.id], planContext(settings)),
+    moment: { content },
+    count: String(count)
+  });
+  const raw = await generateText(prompt, settings, { purpose: 'moment', characterId: character.id });
+  const match = (raw || '').match(/\{[\s\S]*\}/);
+  if (!match) throw new Error('Image prompts returned no JSON');
+  const prompts = JSON.parse(match[0]).prompts;
+  if (!Array.isArray(prompts)) throw new Error('Image prompts returned no list');
+  return prompts.filter((p: any) => typeof p === 'string' && p.trim()).map((p: string) => p.trim()).slice(0, count);
+}
+
+// Store a moment comment and notify connected clients
+function addComment(momentId: string, authorId: string, authorName: string, content: string) {
+  const comment = { id: uuidv4(), moment_id: momentId, author_id: authorId, author_name: authorName, content, timestamp: new Date().toISOString() };
+  db.prepare('INSERT INTO moment_comments (id, moment_id, author_id, author_name, content, timestamp) VALUES (?, ?, ?, ?, ?, ?)')
+    .run(comment.id, momentId, authorId, authorName, content, comment.timestamp);
+  broadcast('comment.created', comment);
+  return comment;
+}
+
+// One-shot prompt of a character (proactive, nudge, moment) with its matching lore around it.
+// History fills what the template and the lore leave of the budget.
+function buildCharacterPrompt(useCase: string, character: any, settings: any) {
+  const budget = planContext(settings);
+  const lore = buildLore([character.id], character.id, settings, budget);
+  const remaining = { ...budget, prompt: budget.prompt - estimateTokens(lore.before + lore.after, budget.provider) };
+  const vars = fillHistory(useCase, [character.id], buildCharacterVariables(character, settings, [character.id], budget), character.id, settings, remaining);
+  return injectLore(renderPrompt(useCase, [character.id], vars), lore);
+}
+
+// Generate and store one proactive message from a character (client trigger and scheduler)
+async function sendProactiveMessage(character: any, settings: any) {
+  const prompt = buildCharacterPrompt('proactive', character, settings);
+
+  const parts = await generateReply(prompt, settings, { purpose: 'proactive', characterId: character.id, chatId: character.id });
+  const messages = await storeReplyParts(character.id, character, parts, settings, 'proactive');
+  return { messages, text: replyText(parts) };
+}
+
+// In groups prompts are per responder; default to the first member
+function findResponder(chatEntity: any, responderId?: string) {
+  if (!chatEntity.is_group) return chatEntity;
+  return db.prepare(`
+    SELECT c.* FROM characters c
+    JOIN group_members gm ON c.id = gm.character_id
+    WHERE gm.group_id = ? ${responderId ? 'AND c.id = ?' : ''}
+    LIMIT 1
+  `).get(...(responderId ? [chatEntity.id, responderId] : [chatEntity.id])) as any;
+}
+
+// Build the system prompt and message history for one responder in a chat (also used by the template
+// preview and the context debug endpoint). History is trimmed oldest first to the model's token budget.
+function buildChatPrompt(chatEntity: any, responder: any, settings: any, mode?: string, description?: string) {
+  const budget = planContext(settings);
+  const candidates = recentMessages(chatEntity.id, MAX_HISTORY_MESSAGES);
+
+  let groupContext = "";
+  if (chatEntity.is_group) {
+    const members = db.prepare(`
+      SELECT c.* FROM characters c 
+      JOIN group_members gm ON c.id = gm.character_id 
+      WHERE gm.group_id = ?
+    `).all(chatEntity.id) as any[];
+    groupContext = `Context: You are in a group chat named "${chatEntity.name}".
+Group Members: ${members.map((m:any) => m.name).join(', ')}`;
+  }
+
+  // Scenario Mode Context
+  let scenarioInstruction = "";
+  if (mode === 'scenario') {
+      scenarioInstruction = `MODE: SCENARIO / ROLEPLAY
+The user has provided a description of the scene/action: "${description || 'No description'}".
+
+INSTRUCTIONS:
+1. You MUST start your response with a descriptive paragraph (narration) of your own actions, feelings, or the environment.
+2. Follow the narration with your spoken dialogue.
+3. SEPARATE the narration and the dialogue with the delimiter "|||".
+Example:
+I looked up at the sky, feeling a bit lonely.|||I miss you so much.`;
+  } else {
+      scenarioInstruction = `MODE: CHAT
+Reply naturally as if using a chat app (WeChat). Keep it concise.`;
+  }
+
+  // Chat history in OpenAI message format; the provider adapter converts it.
+  // In groups only the responder's own messages are 'assistant'; everyone else speaks with a name prefix.
+  const toMessage = (msg: any) => {
+    if (!chatEntity.is_group) {
+      return { role: msg.sender_id === 'user' ? 'user' : 'assistant', content: msg.content };
     }
+    if (msg.sender_id === responder.id) return { role: 'assistant', content: msg.content };
+    return { role: 'user', content: `${msg.sender_name}: ${msg.content}` };
+  };
+
+  // Long-term memory: the responder's own memories plus the group's shared memories
+  const ownerIds = chatEntity.is_group ? [responder.id, chatEntity.id] : [responder.id];
+  const vars = {
+    ...buildCharacterVariables(responder, settings, ownerIds, budget, chatEntity.id),
+    group: groupContext,
+    scenario: scenarioInstruction,
+    description: description || '',
+    history: '',
+    image_instruction: isProviderConfigured(settings, 'image') ? `You can generate images by outputting [生图: 提示词]. Use this when you want to share a photo, show something, or create art. The prompt should be descriptive and in English for better results.` : ''
+  };
+  const template = resolveTemplate('chat', ownerIds);
+
+  // JSON replies replace the marker instructions of the template
+  const formatNote = isStructured(settings) ? `\n\n${formatInstruction(mode)}` : '';
+  // World info whose keywords appear in the recent messages (or the scene description)
+  const lore = buildLore(ownerIds, chatEntity.id, settings, budget, description);
+
+  // History gets whatever the system prompt leaves of the budget
+  const baseTokens = estimateTokens(injectLore(renderTemplate(template.content, vars) + formatNote, lore), budget.provider);
+  const fitted = fitHistory(candidates, budget.prompt - baseTokens, msg => countMessageTokens([toMessage(msg)], budget.provider));
+  const history = fitted.included;
+  vars.history = formatHistory(history);
+  const messages: any[] = history.map(toMessage);
+
+  // Add current user message with description if scenario
+  if (mode === 'scenario' && description) {
+      const lastMsg = messages[messages.length - 1];
+      if (lastMsg && lastMsg.role === 'user') {
+          lastMsg.content = `(Action/Context: ${description}) ${lastMsg.content}`;
+      }
+  }
+
+  const systemPrompt = injectLore(renderTemplate(template.content, vars) + formatNote, lore);
+  const systemTokens = estimateTokens(systemPrompt, budget.provider);
+  const historyTokens = countMessageTokens(messages, budget.provider);
+  const context = {
+    budget,
+    usage: {
+      system: systemTokens,
+      memory: estimateTokens(vars.memory, budget.provider),
+      stickers: estimateTokens(vars.stickers, budget.provider),
+      lore: estimateTokens(lore.before + lore.after, budget.provider),
+      history: historyTokens,
+      total: systemTokens + historyTokens,
+      remaining: budget.prompt - systemTokens - historyTokens
+    },
+    included: history.map(m => ({ id: m.id, sender_name: m.sender_name, timestamp: m.timestamp, tokens: countMessageTokens([toMessage(m)], budget.provider) })),
+    dropped: fitted.dropped.length,
+    lore: lore.entries,
+    lore_dropped: lore.dropped,
+    // Older messages were not even considered once MAX_HISTORY_MESSAGES rows were scanned
+    truncated_scan: candidates.length === MAX_HISTORY_MESSAGES
+  };
+
+  return { systemPrompt, messages, template, vars, context };
+}
+
+// Streaming variant of reply routes: push Server-Sent Events as each responder types instead of one JSON response at the end
+function openReplyStream(req: express.Request, res: express.Response) {
+  const streaming = req.body.stream === true || (req.headers.accept || '').includes('text/event-stream');
+  const emit = (event: string, data: any) => {
+    if (!streaming || res.writableEnded) return;
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+  if (streaming) {
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.flushHeaders();
   }
+  return { streaming, emit };
+}
+
+// Generate one responder's reply and persist it part by part; `emit` forwards streaming events.
+// Returns the saved messages (used by /api/chat and by regeneration). When every provider fails, a
+// system notice is posted to the chat and collected in `options.notices`.
+async function runResponder(chatEntity: any, responder: any, settings: any,
+  options: { mode?: string; description?: string; imageDescription?: string; streaming?: boolean; notices?: any[] },
+  emit: (event: string, data: any) => void) {
+  const { mode, description, imageDescription, streaming } = options;
+  const characterId = chatEntity.id;
+  const saved: any[] = [];
+
+  emit('typing', { sender_id: responder.id, sender_name: responder.name, sender_avatar: responder.avatar });
+
+  // Parts are persisted in order as soon as the parser finalizes them, each with a later timestamp.
+  // A part that fails to save (e.g. its image cannot be generated) is skipped; later parts still follow.
+  let clock = Date.now();
+  let pendingParts = Promise.resolve();
+  const savePart = async (part: ReplyPart) => {
+    if (part.type === 'delay') {
+      clock += part.delay_ms;
+      if (streaming) {
+        emit('typing', { sender_id: responder.id, sender_name: responder.name, sender_avatar: responder.avatar });
+        await new Promise(resolve => setTimeout(resolve, part.delay_ms));
+      }
+      return;
+    }
+    clock = Math.max(clock + 100, Date.now());
+    const msg = await storeReplyPart(characterId, responder, part, settings, new Date(clock).toISOString());
+    if (!msg) return;
+    saved.push(msg);
+    emit(msg.type === 'text' ? 'part' : msg.type, msg);
+  };
+  const structured = isStructured(settings);
+  const parser = createReplyParser({ structured, mode, responderName: responder.name }, (part) => {
+    pendingParts = pendingParts.then(() => savePart(part).catch(e => {
+      console.error("Reply Part Error:", e);
+      emit('error', { sender_id: responder.id, message: e.message });
+    }));
+  });
+  const onDelta = (delta: string) => {
+    // Raw JSON is not worth showing while it streams; its parts arrive as they complete
+    if (!structured) emit('delta', { sender_id: responder.id, text: delta });
+    parser.push(delta);
+  };
+  const responseSchema = structured ? REPLY_SCHEMA : undefined;
 
-  let errorMessage = lastError || "未知错误";
   try {
-    const errJson = JSON.parse(lastError);
-    if (errJson.error) {
-      errorMessage = errJson.error.message || JSON.stringify(errJson.error);
-      if (errJson.error.code === 'bad_response_status_code' || errorMessage.includes('openai_error')) {
-        errorMessage = `上游服务器错误 (Bad Response). 请确保模型名称 "${model}" 正确，且 API Key 余额充足并支持生图。`;
+    let text = '';
+
+    const { systemPrompt, messages } = buildChatPrompt(chatEntity, responder, settings, mode, description);
+    const usageMeta: UsageMeta = { purpose: 'chat', characterId: responder.id, chatId: characterId };
+
+    // Inject image description into history if available
+    if (imageDescription) {
+        messages.push({ role: 'system', content: `[User sent an image. Description: ${imageDescription}]` });
+    }
+
+    messages.unshift({ role: 'system', content: systemPrompt });
+
+    // Tool calls are run and answered until the model replies without calling any (or the rounds
+    // run out); text written between calls is part of the reply. Each call shows up as a system message.
+    const tools = enabledTools(responder.id);
+    for (let round = 0; ; round++) {
+      const calls: ToolCall[] = [];
+      const chatOptions: ChatOptions = { responseSchema };
+      if (tools.length > 0 && round < MAX_TOOL_ROUNDS) {
+        chatOptions.tools = toolSpecs(tools);
+        chatOptions.onToolCalls = (requested) => calls.push(...requested);
+      }
+      let roundText: string;
+      if (streaming) {
+        roundText = await chatCompletion(settings, messages, { ...chatOptions, onDelta }, usageMeta);
+      } else {
+        roundText = await chatCompletion(settings, messages, chatOptions, usageMeta);
+        parser.push(roundText);
+      }
+      text += roundText || '';
+      if (calls.length === 0) break;
+
+      messages.push({ role: 'assistant', content: roundText || '', tool_calls: calls });
+      for (const call of calls) {
+        const result = await runToolCall(call, tools, { character: responder, chatId: characterId, settings, language: chatLanguage(characterId, settings) });
+        messages.push({ role: 'tool', tool_call_id: call.id, name: call.name, content: result.content });
+        const notice = postSystemNotice(characterId, result.notice);
+        options.notices?.push(notice);
+        emit('system', notice);
       }
     }
-  } catch (e) {}
+    if (!text) {
+      text = "...";
+      parser.push(text);
+    }
 
-  throw new Error(`[HTTP ${lastStatus}] ${errorMessage}`);
+    parser.end();
+    await pendingParts;
+
+    // Mark user messages as read
+    const read = db.prepare("UPDATE messages SET status = 'read' WHERE character_id = ? AND sender_id = 'user' AND status = 'sent'").run(characterId);
+    if (read.changes > 0) broadcast('message.read', { chat_id: characterId, reader: responder.id });
+  } catch (err) {
+    console.error(err);
+    // Keep whatever parts were already finalized before the failure
+    await pendingParts;
+    emit('error', { sender_id: responder.id, message: err.message });
+    const notice = postSystemNotice(characterId, t('reply_failed', { name: responder.name, error: err.message }));
+    options.notices?.push(notice);
+    emit('system', notice);
+  }
+  emit('responder_done', { sender_id: responder.id });
+  return saved;
 }
 
 async function startServer() {
   const app = express();
   const PORT = 3000;
+  // Errors and system notices follow the global language setting
+  setServerLanguage(loadSettings().language);
+
+  // Every API route needs a session, except status, login and setup (checked before bodies are parsed)
+  app.use('/api', requireAuth);
+  app.use('/media', requireAuth);
 
+  // Backups carry every base64 image, so restore gets a much larger body limit
+  app.use('/api/restore', express.json({ limit: '500mb' }));
   app.use(express.json({ limit: '10mb' }));
 
   // --- API Routes ---
 
+  // Login state, and whether a password has been set yet
+  app.get('/api/auth/status', authStatus);
+
+  // Set the first password with the setup code printed in the server console: { password, code }
+  app.post('/api/auth/setup', setup);
+
+  // Exchange the password for a session (cookie and token): { password }
+  app.post('/api/auth/login', login);
+
+  app.post('/api/auth/logout', logout);
+
+  // { current_password, new_password }; signs out every other session
+  app.put('/api/auth/password', changePassword);
+
   // Get Settings
   app.get('/api/settings', (req, res) => {
-    const settings = db.prepare('SELECT * FROM settings').all();
+    // API keys are masked; write them through PUT /api/settings/secrets
+    const settings = loadSettings();
     const settingsMap: any = {};
-    settings.forEach((s: any) => settingsMap[s.key] = s.value);
+    Object.entries(settings).forEach(([key, value]: [string, any]) => {
+      if (key.startsWith('auth_')) return;
+      settingsMap[key] = isSecretSetting(key) ? maskSetting(key, value) : value;
+    });
+    // The default persona, for clients from before personas
+    const persona = getDefaultPersona();
+    ['name', 'gender', 'bio', 'avatar', 'background'].forEach(f => settingsMap[`user_${f}`] = persona[f] || '');
     res.json(settingsMap);
   });
 
-  // Test Connection
+  // Test Connection (provider defaults to OpenAI compatible)
   app.post('/api/test-connection', async (req, res) => {
-    const { url, key, model, type } = req.body;
+    const { url, key, model, type, provider } = req.body;
     try {
-      if (type === 'image') {
-        // Use a more descriptive prompt for image testing
-        const result = await generateImageWithOpenAI(key, url, model, "A beautiful digital art piece of a futuristic city with neon lights, high resolution, detailed");
-        if (result) return res.json({ success: true, message: '连接成功！已生成测试图片。' });
-      } else {
-        const result = await generateWithOpenAI(key, url, model, [{ role: 'user', content: 'hi' }]);
-        if (result) return res.json({ success: true, message: '连接成功！' });
-      }
-      res.json({ success: false, message: '连接失败：未知错误' });
+      const message = await getProvider(provider || 'openai').testConnection({ apiKey: requestApiKey(key, type), baseURL: url, model }, type);
+      res.json({ success: true, message });
+    } catch (e: any) {
+      res.json({ success: false, message: `${e.message}` });
+    }
+  });
+
+  // Reply languages for the character, persona and global settings ('auto' follows the user)
+  app.get('/api/languages', (req, res) => {
+    res.json({ languages: Object.entries(LANGUAGES).map(([code, l]) => ({ code, ...l })), auto: AUTO_LANGUAGE, default: DEFAULT_LANGUAGE });
+  });
+
+  // List available providers and their default models
+  app.get('/api/providers', (req, res) => {
+    res.json(listProviders());
+  });
+
+  // List models of a provider
+  app.post('/api/models', async (req, res) => {
+    const { url, key, provider, type } = req.body;
+    try {
+      const models = await getProvider(provider || 'openai').listModels({ apiKey: requestApiKey(key, type), baseURL: url });
+      res.json({ success: true, models });
     } catch (e: any) {
       res.json({ success: false, message: `${e.message}` });
     }
   });
 
+  // Logged model calls, newest first (?characterId=, ?purpose=)
+  app.get('/api/usage', (req, res) => {
+    res.json(listUsage({ limit: req.query.limit, offset: req.query.offset, characterId: req.query.characterId as string, purpose: req.query.purpose as string }));
+  });
+
+  // Usage totals ?by=day|model|character|purpose|provider, optionally within ?from= and ?to= (YYYY-MM-DD)
+  app.get('/api/usage/summary', (req, res) => {
+    const by = (req.query.by as string) || 'day';
+    try {
+      res.json({ by, rows: usageSummary(by, { from: req.query.from as string, to: req.query.to as string }) });
+    } catch (e: any) {
+      res.status(400).json({ error: e.message });
+    }
+  });
+
+  // Today's spend against the daily budgets
+  app.get('/api/usage/budget', (req, res) => {
+    res.json(getDailyBudget(loadSettings()));
+  });
+
+  // Effective price table (built-in prices merged with the price_table setting)
+  app.get('/api/usage/prices', (req, res) => {
+    res.json(getPriceTable(loadSettings()));
+  });
+
   // Update Settings
   app.post('/api/settings', (req, res) => {
     const { 
-        chat_api_url, chat_api_key, chat_model,
-        vision_api_url, vision_api_key, vision_model,
-        image_api_url, image_api_key, image_model,
-        user_name, user_gender, user_bio, user_avatar, user_background 
+        chat_provider, chat_api_url, chat_model,
+        vision_provider, vision_api_url, vision_model,
+        image_provider, image_api_url, image_model,
+        transcription_provider, transcription_api_url, transcription_model,
+        speech_provider, speech_api_url, speech_model,
+        user_name, user_gender, user_bio, user_avatar, user_background,
+        context_sizes, price_table, daily_budget_cost, daily_budget_tokens,
+        retry_attempts, retry_base_delay_ms, request_timeout_ms,
+        reply_format, lore_scan_depth, language
     } = req.body;
+    // Keys echoed back masked by older clients are ignored; new keys go through PUT /api/settings/secrets
+    const current = loadSettings();
+    const changedSecret = Object.keys(req.body).find(key => isSecretSetting(key) && !isUnchangedSecret(current, key, req.body[key]));
+    if (changedSecret) {
+      return res.status(400).json({ error: t('secret_write_only', { key: changedSecret }) });
+    }
+    let contextSizes: Record<string, number> | undefined;
+    let priceTable: Record<string, any> | undefined;
+    try {
+      if (context_sizes !== undefined) contextSizes = parseContextSizes(context_sizes);
+      if (price_table !== undefined) priceTable = parsePriceTable(price_table);
+    } catch (e: any) {
+      return res.status(400).json({ error: e.message });
+    }
+    if (reply_format !== undefined && !['markers', 'json'].includes(reply_format)) {
+      return res.status(400).json({ error: t('invalid_reply_format') });
+    }
+    // '' falls back to the default provider
+    const providerIds = listProviders().map(p => p.id);
+    const unknownProvider = PROVIDER_SETTINGS.map(key => req.body[key]).find(id => id !== undefined && id !== '' && !providerIds.includes(id));
+    if (unknownProvider !== undefined) {
+      return res.status(400).json({ error: t('unknown_provider', { id: unknownProvider }) });
+    }
+    if (language !== undefined && !isLanguageSetting(language)) {
+      return res.status(400).json({ error: t('unknown_language', { language }) });
+    }
+    // The user_* fields of older clients edit the default persona
+    const userFields = { name: user_name, gender: user_gender, bio: user_bio, avatar: user_avatar, background: user_background };
+    if (Object.values(userFields).some(v => v !== undefined)) {
+      try {
+        const persona = getDefaultPersona();
+        broadcast('persona.updated', savePersona(persona.id, userFields));
+      } catch (e: any) {
+        return res.status(400).json({ error: e.message });
+      }
+    }
     const stmt = db.prepare('INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)');
+    if (chat_provider !== undefined) stmt.run('chat_provider', chat_provider);
     if (chat_api_url !== undefined) stmt.run('chat_api_url', chat_api_url);
-    if (chat_api_key !== undefined) stmt.run('chat_api_key', chat_api_key);
     if (chat_model !== undefined) stmt.run('chat_model', chat_model);
+    if (vision_provider !== undefined) stmt.run('vision_provider', vision_provider);
     if (vision_api_url !== undefined) stmt.run('vision_api_url', vision_api_url);
-    if (vision_api_key !== undefined) stmt.run('vision_api_key', vision_api_key);
     if (vision_model !== undefined) stmt.run('vision_model', vision_model);
+    if (image_provider !== undefined) stmt.run('image_provider', image_provider);
     if (image_api_url !== undefined) stmt.run('image_api_url', image_api_url);
-    if (image_api_key !== undefined) stmt.run('image_api_key', image_api_key);
     if (image_model !== undefined) stmt.run('image_model', image_model);
-    if (user_name !== undefined) stmt.run('user_name', user_name);
-    if (user_gender !== undefined) stmt.run('user_gender', user_gender);
-    if (user_bio !== undefined) stmt.run('user_bio', user_bio);
-    if (user_avatar !== undefined) stmt.run('user_avatar', user_avatar);
-    if (user_background !== undefined) stmt.run('user_background', user_background);
+    if (transcription_provider !== undefined) stmt.run('transcription_provider', transcription_provider);
+    if (transcription_api_url !== undefined) stmt.run('transcription_api_url', transcription_api_url);
+    if (transcription_model !== undefined) stmt.run('transcription_model', transcription_model);
+    if (speech_provider !== undefined) stmt.run('speech_provider', speech_provider);
+    if (speech_api_url !== undefined) stmt.run('speech_api_url', speech_api_url);
+    if (speech_model !== undefined) stmt.run('speech_model', speech_model);
+    if (contextSizes !== undefined) stmt.run('context_sizes', JSON.stringify(contextSizes));
+    if (priceTable !== undefined) stmt.run('price_table', JSON.stringify(priceTable));
+    // Empty or 0 turns a daily budget off
+    if (daily_budget_cost !== undefined) stmt.run('daily_budget_cost', String(Number(daily_budget_cost) || ''));
+    if (daily_budget_tokens !== undefined) stmt.run('daily_budget_tokens', String(Math.floor(Number(daily_budget_tokens)) || ''));
+    // Empty resets to the defaults of retry.ts
+    if (retry_attempts !== undefined) stmt.run('retry_attempts', String(Math.floor(Number(retry_attempts)) || ''));
+    if (retry_base_delay_ms !== undefined) stmt.run('retry_base_delay_ms', String(Number(retry_base_delay_ms) || ''));
+    if (request_timeout_ms !== undefined) stmt.run('request_timeout_ms', String(Number(request_timeout_ms) || ''));
+    if (reply_format !== undefined) stmt.run('reply_format', reply_format);
+    if (lore_scan_depth !== undefined) stmt.run('lore_scan_depth', String(Math.floor(Number(lore_scan_depth)) || ''));
+    if (language !== undefined) {
+      stmt.run('language', language || '');
+      setServerLanguage(language);
+    }
     res.json({ success: true });
   });
 
+  // Write-only: <purpose>_api_key ('' clears it) and <purpose>_fallbacks, stored encrypted.
+  // Fallback entries sent with a masked or missing key keep their stored key.
+  app.put('/api/settings/secrets', (req, res) => {
+    const current = loadSettings();
+    const updates: Record<string, string> = {};
+    try {
+      for (const purpose of ['chat', 'vision', 'image', 'transcription', 'speech']) {
+        const apiKey = req.body[`${purpose}_api_key`];
+        if (apiKey !== undefined && !isMasked(apiKey)) updates[`${purpose}_api_key`] = apiKey || '';
+        const fallbacks = req.body[`${purpose}_fallbacks`];
+        if (fallbacks !== undefined) {
+          updates[`${purpose}_fallbacks`] = JSON.stringify(keepFallbackKeys(parseFallbacks(fallbacks), current[`${purpose}_fallbacks`]));
+        }
+      }
+    } catch (e: any) {
+      return res.status(400).json({ error: e.message });
+    }
+    Object.entries(updates).forEach(([key, value]) => saveSecretSetting(key, value));
+    res.json({ success: true, updated: Object.keys(updates) });
+  });
+
+  // Download a full backup (API keys only with ?includeSecrets=true)
+  app.get('/api/backup', (req, res) => {
+    const includeSecrets = req.query.includeSecrets === 'true';
+    const archive = createBackup(includeSecrets);
+    const date = archive.created_at.slice(0, 10);
+    res.setHeader('Content-Disposition', `attachment; filename="my-ai-phone-backup-${date}.json"`);
+    res.json(archive);
+  });
+
+  // Restore a backup: { archive, mode: 'merge' | 'replace', dryRun }
+  app.post('/api/restore', (req, res) => {
+    const { archive, mode = 'merge', dryRun } = req.body;
+    if (mode !== 'merge' && mode !== 'replace') {
+      return res.status(400).json({ error: "mode must be 'merge' or 'replace'" });
+    }
+    if (dryRun) {
+      const errors = validateBackup(archive);
+      return res.json({ success: errors.length === 0, errors });
+    }
+    try {
+      const report = restoreBackup(archive, mode);
+      setServerLanguage(loadSettings().language);
+      res.json({ success: true, report });
+    } catch (e: any) {
+      console.error("Restore Error:", e);
+      res.status(e.validation ? 400 : 500).json({ success: false, error: e.message, errors: e.validation });
+    }
+  });
+
+  // Real-time events (Server-Sent Events); clients subscribe once instead of polling
+  app.get('/api/events', subscribe);
+
   // Mark messages as read
   app.post('/api/messages/:chatId/read', (req, res) => {
     const { chatId } = req.params;
-    db.prepare("UPDATE messages SET status = 'read' WHERE character_id = ? AND sender_id != 'user' AND status = 'sent'").run(chatId);
+    const result = db.prepare("UPDATE messages SET status = 'read' WHERE character_id = ? AND sender_id != 'user' AND status = 'sent'").run(chatId);
+    if (result.changes > 0) broadcast('message.read', { chat_id: chatId, reader: 'user' });
     res.json({ success: true });
   });
 
@@ -227,11 +821,22 @@ async function startServer() {
 
   // Create character or group
   app.post('/api/characters', (req, res) => {
-    const { name, avatar, bio, personality, gender, other_info, background, relationship, is_group, members, reply_strategy } = req.body;
+    const { name, bio, personality, gender, other_info, background, relationship, is_group, members, reply_strategy, language, voice_id, voice_speed, voice_mode } = req.body;
+    if (language !== undefined && !isLanguageSetting(language)) return res.status(400).json({ error: t('unknown_language', { language }) });
+    if (voice_mode !== undefined && !isVoiceMode(voice_mode)) return res.status(400).json({ error: t('invalid_voice_mode', { modes: VOICE_MODES.join(', ') }) });
+    const invalid = invalidChoice('reply_strategy', reply_strategy, REPLY_STRATEGIES);
+    if (invalid) return res.status(400).json({ error: invalid });
+    let avatar: string;
+    try {
+      avatar = storeDataUrl(req.body.avatar);
+    } catch (e: any) {
+      return res.status(400).json({ error: e.message });
+    }
     const id = uuidv4();
     
-    const stmt = db.prepare('INSERT INTO characters (id, name, avatar, bio, personality, gender, other_info, background, relationship, is_group, reply_strategy) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)');
-    stmt.run(id, name, avatar, bio || '', personality || '', gender || '', other_info || '', background || '', relationship || 'Friend', is_group ? 1 : 0, reply_strategy || 'normal');
+    const stmt = db.prepare('INSERT INTO characters (id, name, avatar, bio, personality, gender, other_info, background, relationship, is_group, reply_strategy, language, voice_id, voice_speed, voice_mode) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)');
+    stmt.run(id, name, avatar, bio || '', personality || '', gender || '', other_info || '', background || '', relationship || 'Friend', is_group ? 1 : 0, reply_strategy || 'normal', language || '',
+      voice_id || '', voiceSpeed(voice_speed), voice_mode || 'off');
 
     if (is_group && members && Array.isArray(members)) {
       const memberStmt = db.prepare('INSERT INTO group_members (group_id, character_id) VALUES (?, ?)');
@@ -240,17 +845,35 @@ async function startServer() {
       });
     }
 
+    broadcast('character.created', db.prepare('SELECT * FROM characters WHERE id = ?').get(id));
     res.json({ id, name, avatar, bio, personality, gender, other_info, background, relationship, is_group });
   });
 
   // Update character
   app.put('/api/characters/:id', (req, res) => {
     const { id } = req.params;
-    const { name, avatar, bio, personality, gender, other_info, background, relationship, members, reply_mode, reply_strategy } = req.body;
+    const { name, bio, personality, gender, other_info, background, relationship, members, reply_mode, reply_strategy, director_strategy, director_max_turns, language, voice_id, voice_speed, voice_mode } = req.body;
+    if (language !== undefined && !isLanguageSetting(language)) return res.status(400).json({ error: t('unknown_language', { language }) });
+    if (voice_mode !== undefined && !isVoiceMode(voice_mode)) return res.status(400).json({ error: t('invalid_voice_mode', { modes: VOICE_MODES.join(', ') }) });
+    const invalid = invalidChoice('reply_mode', reply_mode, REPLY_MODES)
+      || invalidChoice('reply_strategy', reply_strategy, REPLY_STRATEGIES)
+      || invalidChoice('director_strategy', director_strategy, DIRECTOR_STRATEGIES);
+    if (invalid) return res.status(400).json({ error: invalid });
+    let avatar: string;
+    try {
+      avatar = storeDataUrl(req.body.avatar);
+    } catch (e: any) {
+      return res.status(400).json({ error: e.message });
+    }
     
-    // Update character table
-    const stmt = db.prepare('UPDATE characters SET name = ?, avatar = ?, bio = ?, personality = ?, gender = ?, other_info = ?, background = ?, relationship = ?, reply_mode = ?, reply_strategy = ? WHERE id = ?');
-    stmt.run(name, avatar, bio, personality, gender || '', other_info || '', background || '', relationship || 'Friend', reply_mode || 'natural', reply_strategy || 'normal', id);
+    // Update character table (director, language and voice settings are kept when not sent; '' inherits)
+    const stmt = db.prepare(`UPDATE characters SET name = ?, avatar = ?, bio = ?, personality = ?, gender = ?, other_info = ?, background = ?, relationship = ?, reply_mode = ?, reply_strategy = ?,
+      director_strategy = COALESCE(?, director_strategy), director_max_turns = COALESCE(?, director_max_turns), language = COALESCE(?, language),
+      voice_id = COALESCE(?, voice_id), voice_speed = COALESCE(?, voice_speed), voice_mode = COALESCE(?, voice_mode) WHERE id = ?`);
+    stmt.run(name, avatar, bio, personality, gender || '', other_info || '', background || '', relationship || 'Friend', reply_mode || 'natural', reply_strategy || 'normal',
+      director_strategy !== undefined ? director_strategy || 'heuristic' : null,
+      director_max_turns !== undefined ? directorMaxTurns({ director_max_turns }) : null, language ?? null,
+      voice_id ?? null, voice_speed !== undefined ? voiceSpeed(voice_speed) : null, voice_mode ?? null, id);
 
     // If it's a group, update members
     const character = db.prepare('SELECT * FROM characters WHERE id = ?').get(id) as any;
@@ -264,9 +887,44 @@ async function startServer() {
       });
     }
 
+    broadcast('character.updated', db.prepare('SELECT * FROM characters WHERE id = ?').get(id));
     res.json({ success: true });
   });
 
+  // Import a Character Card V2 (JSON body `card`, or base64 PNG `png`); dryRun only validates
+  app.post('/api/characters/import', (req, res) => {
+    const { card, png, dryRun } = req.body;
+    try {
+      if (dryRun) {
+        const { report } = mapCard(parseCard({ card, png }).card);
+        return res.json({ success: true, report });
+      }
+      const result = importCard({ card, png });
+      broadcast('character.created', result.character);
+      res.json({ success: true, ...result });
+    } catch (e: any) {
+      res.status(400).json({ success: false, error: e.message });
+    }
+  });
+
+  // Export a character as a Character Card V2 (?format=json|png)
+  app.get('/api/characters/:id/export', async (req, res) => {
+    const { id } = req.params;
+    const character = db.prepare('SELECT * FROM characters WHERE id = ?').get(id) as any;
+    if (!character) return res.status(404).json({ error: 'Character not found' });
+    if (character.is_group) return res.status(400).json({ error: 'Groups cannot be exported as character cards' });
+
+    const filename = encodeURIComponent(character.name || 'character');
+    if (req.query.format === 'png') {
+      const png = await buildCardPng(id);
+      res.setHeader('Content-Type', 'image/png');
+      res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${filename}.png`);
+      return res.send(png);
+    }
+    res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${filename}.json`);
+    res.json(buildCard(id));
+  });
+
   // Get group members
   app.get('/api/characters/:id/members', (req, res) => {
     const { id } = req.params;
@@ -291,19 +949,154 @@ async function startServer() {
     db.prepare('DELETE FROM messages WHERE character_id = ?').run(id);
     // Delete stickers
     db.prepare('DELETE FROM stickers WHERE owner_id = ?').run(id);
+    // Delete memories and template overrides
+    db.prepare('DELETE FROM memories WHERE owner_id = ?').run(id);
+    db.prepare('DELETE FROM character_templates WHERE character_id = ?').run(id);
+    db.prepare('DELETE FROM character_schedules WHERE character_id = ?').run(id);
+    // Delete tool permissions and pending scheduled messages
+    db.prepare('DELETE FROM character_tools WHERE character_id = ?').run(id);
+    db.prepare('DELETE FROM scheduled_messages WHERE character_id = ? OR chat_id = ?').run(id, id);
+    // Delete lore entries scoped to it
+    db.prepare('DELETE FROM lorebook_entries WHERE scope_id = ?').run(id);
+    // Delete swipe alternatives
+    db.prepare('DELETE FROM message_swipes WHERE chat_id = ?').run(id);
+    // Delete moments (their comments, images, likes and audience cascade), and its likes and audience entries elsewhere
+    db.prepare('DELETE FROM moments WHERE character_id = ?').run(id);
+    db.prepare('DELETE FROM moment_likes WHERE liker_id = ?').run(id);
+    db.prepare('DELETE FROM moment_audience WHERE character_id = ?').run(id);
     // Delete character
     db.prepare('DELETE FROM characters WHERE id = ?').run(id);
 
+    broadcast('character.deleted', { id });
     res.status(204).send();
   });
 
-  // Get messages for a chat (character or group)
+  // Get messages for a chat (character or group). With ?limit, ?before, ?after or ?around
+  // (message id or timestamp) a single page is returned instead of the whole conversation.
   app.get('/api/messages/:chatId', (req, res) => {
     const { chatId } = req.params;
+    const { limit, before, after, around } = req.query as Record<string, string | undefined>;
+    if (limit || before || after || around) {
+      try {
+        return res.json(getMessagePage(chatId, { limit, before, after, around }));
+      } catch (e: any) {
+        return res.status(404).json({ error: e.message });
+      }
+    }
     const messages = db.prepare('SELECT * FROM messages WHERE character_id = ? ORDER BY timestamp ASC').all(chatId);
     res.json(messages);
   });
 
+  // Full-text search in one chat
+  app.get('/api/messages/:chatId/search', (req, res) => {
+    const { chatId } = req.params;
+    const { q, limit, offset } = req.query as Record<string, string | undefined>;
+    res.json(search(q || '', { chatId, limit, offset }));
+  });
+
+  // Global full-text search over messages and moment comments (?type=all|messages|comments)
+  app.get('/api/search', (req, res) => {
+    const { q, type, limit, offset } = req.query as Record<string, string | undefined>;
+    res.json(search(q || '', { type, limit, offset }));
+  });
+
+  // Edit a message (the edited text is what later prompts see)
+  app.put('/api/messages/:chatId/:messageId', (req, res) => {
+    const { chatId, messageId } = req.params;
+    const { content } = req.body;
+    if (typeof content !== 'string' || !content.trim()) return res.status(400).json({ error: 'content is required' });
+
+    const result = db.prepare('UPDATE messages SET content = ?, edited_at = ? WHERE id = ? AND character_id = ?')
+      .run(content, new Date().toISOString(), messageId, chatId);
+    if (result.changes === 0) return res.status(404).json({ error: 'Message not found' });
+
+    const message = db.prepare('SELECT * FROM messages WHERE id = ?').get(messageId) as any;
+    syncSwipe(message.swipe_id);
+    broadcast('message.updated', message);
+    res.json(message);
+  });
+
+  // Delete a message
+  app.delete('/api/messages/:chatId/:messageId', (req, res) => {
+    const { chatId, messageId } = req.params;
+    const message = db.prepare('SELECT * FROM messages WHERE id = ? AND character_id = ?').get(messageId, chatId) as any;
+    if (!message) return res.status(404).json({ error: 'Message not found' });
+
+    db.prepare('DELETE FROM messages WHERE id = ?').run(messageId);
+    syncSwipe(message.swipe_id);
+    broadcast('message.deleted', { id: messageId, character_id: chatId });
+    res.status(204).send();
+  });
+
+  // Alternatives (swipes) of the last turn of a responder (defaults to whoever replied last)
+  app.get('/api/messages/:chatId/swipes', (req, res) => {
+    const { chatId } = req.params;
+    const turn = getLastTurn(chatId, req.query.senderId as string | undefined);
+    if (!turn) return res.json({ sender_id: null, reply_to: null, swipes: [] });
+    res.json({ sender_id: turn.senderId, reply_to: turn.replyTo, swipes: listSwipes(chatId, turn.senderId, turn.replyTo) });
+  });
+
+  // Make another alternative the active one
+  app.post('/api/messages/:chatId/swipes/:swipeId/select', (req, res) => {
+    const { chatId, swipeId } = req.params;
+    try {
+      const { removed, inserted } = selectSwipe(swipeId);
+      removed.forEach(id => broadcast('message.deleted', { id, character_id: chatId }));
+      inserted.forEach(m => broadcast('message.created', m));
+      res.json({ success: true, messages: inserted });
+    } catch (e: any) {
+      res.status(400).json({ success: false, error: e.message });
+    }
+  });
+
+  // Regenerate the last turn: the current reply is kept as an alternative and a new one is generated
+  app.post('/api/messages/:chatId/regenerate', async (req, res) => {
+    const { chatId } = req.params;
+    const { senderId, mode, description } = req.body;
+    const chatEntity = db.prepare('SELECT * FROM characters WHERE id = ?').get(chatId) as any;
+    if (!chatEntity) return res.status(404).json({ error: 'Chat not found' });
+
+    const turn = getLastTurn(chatId, senderId);
+    const responder = turn && db.prepare('SELECT * FROM characters WHERE id = ?').get(turn.senderId) as any;
+    if (!responder) return res.status(400).json({ error: 'Nothing to regenerate' });
+
+    const settings = loadSettings();
+    const { swipeId: previousSwipeId, removed } = stashTurn(turn);
+    removed.forEach(id => broadcast('message.deleted', { id, character_id: chatId }));
+
+    // Describe the image again if the turn answers one
+    let imageDescription = "";
+    const userMsg = turn.replyTo ? db.prepare('SELECT * FROM messages WHERE id = ?').get(turn.replyTo) as any : null;
+    if (userMsg?.type === 'image' && isProviderConfigured(settings, 'vision')) {
+      try {
+        imageDescription = await describeImage(settings, userMsg.content, { chatId }, replyLanguage(responder, settings, chatId));
+      } catch (e) {
+        console.error("Vision Error:", e);
+      }
+    }
+
+    const { streaming, emit } = openReplyStream(req, res);
+    const notices: any[] = [];
+    const messages = await runResponder(chatEntity, responder, settings, { mode, description, imageDescription, streaming, notices }, emit);
+
+    let swipeId = previousSwipeId;
+    if (messages.length > 0) {
+      swipeId = saveSwipe(chatId, turn.senderId, turn.replyTo, messages);
+    } else if (previousSwipeId) {
+      // Generation failed: bring the previous reply back
+      const { inserted } = selectSwipe(previousSwipeId);
+      inserted.forEach(m => broadcast('message.created', m));
+      messages.push(...inserted);
+    }
+
+    const result = { swipe_id: swipeId, messages, notices, swipes: listSwipes(chatId, turn.senderId, turn.replyTo) };
+    if (streaming) {
+      emit('done', result);
+      return res.end();
+    }
+    res.json(result);
+  });
+
   // Get stickers for an owner
   app.get('/api/stickers/:ownerId', (req, res) => {
     const { ownerId } = req.params;
@@ -313,10 +1106,16 @@ async function startServer() {
 
   // Add a sticker
   app.post('/api/stickers', (req, res) => {
-    const { ownerId, url, description } = req.body;
-    if (!ownerId || !url) {
+    const { ownerId, description } = req.body;
+    if (!ownerId || !req.body.url) {
       return res.status(400).json({ error: 'ownerId and url are required' });
     }
+    let url: string;
+    try {
+      url = storeDataUrl(req.body.url);
+    } catch (e: any) {
+      return res.status(400).json({ error: e.message });
+    }
     const id = uuidv4();
     db.prepare('INSERT INTO stickers (id, owner_id, url, description) VALUES (?, ?, ?, ?)')
       .run(id, ownerId, url, description || '');
@@ -332,66 +1131,65 @@ async function startServer() {
 
   // Send message (User -> AI/Group)
   app.post('/api/chat', async (req, res) => {
-    const { characterId, content, type, image, mode, description } = req.body;
+    const { characterId, type, image, mode, description } = req.body;
+    // Images, stickers and recordings are stored in the media store, text stays as is
+    let content = req.body.content;
+    try {
+      if (type !== 'text') content = storeDataUrl(content);
+    } catch (e: any) {
+      return res.status(400).json({ error: e.message });
+    }
     
-    // Fetch User Persona Settings
-    const settingsRows = db.prepare('SELECT * FROM settings').all() as any[];
-    const settings: any = {};
-    settingsRows.forEach(s => settings[s.key] = s.value);
-
-    const userName = settings.user_name || 'Me';
-    const userBio = settings.user_bio || '';
-    const userGender = settings.user_gender || '';
+    const settings = loadSettings();
+    const persona = getChatPersona(characterId);
+
+    // 0.5 Voice messages: the transcript is the content, the recording goes alongside it
+    let audio: string | null = null;
+    let audioDuration: number | null = null;
+    if (type === 'voice') {
+      if (!isMediaRef(content)) return res.status(400).json({ error: 'Voice messages need the recording as a data URL' });
+      audio = content;
+      const voice = await transcribeVoice(settings, audio, characterId);
+      content = voice.text;
+      // WAV headers and the transcription endpoint know better than the client
+      audioDuration = voice.duration ?? (Number(req.body.duration) > 0 ? Number(req.body.duration) : null);
+    }
     
-    // 1. Save User Message
+    // 1. Save User Message (as the persona bound to this chat)
     const userMsgId = uuidv4();
-    db.prepare('INSERT INTO messages (id, character_id, sender_id, sender_name, content, type, timestamp, status) VALUES (?, ?, ?, ?, ?, ?, ?, ?)')
-      .run(userMsgId, characterId, 'user', userName, content, type, new Date().toISOString(), 'sent');
+    db.prepare('INSERT INTO messages (id, character_id, sender_id, sender_name, sender_avatar, persona_id, content, type, timestamp, status, audio, audio_duration) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)')
+      .run(userMsgId, characterId, 'user', persona.name, persona.avatar || null, persona.id, content, type, new Date().toISOString(), 'sent', audio, audioDuration);
+    broadcast('message.created', db.prepare('SELECT * FROM messages WHERE id = ?').get(userMsgId));
+
+    // 2. Determine Context (Individual or Group)
+    const chatEntity = db.prepare('SELECT * FROM characters WHERE id = ?').get(characterId) as any;
 
-    // 1.5 Handle Vision if image
+    // 1.5 Handle Vision if image (described in the chat's reply language)
     let imageDescription = "";
-    if (type === 'image' && (settings.vision_api_key || process.env.GEMINI_API_KEY)) {
+    if (type === 'image' && isProviderConfigured(settings, 'vision')) {
         try {
-            if (settings.vision_api_url) { // Use custom OpenAI-compatible vision
-                 const visionMessages = [
-                    {
-                        role: 'user',
-                        content: [
-                            { type: 'text', text: "请详细描述这张图片的内容，包括主体、动作、环境、氛围等。如果是表情包，请解释其含义。请用中文回答。" },
-                            { type: 'image_url', image_url: { url: content } }
-                        ]
-                    }
-                ];
-                imageDescription = await generateWithOpenAI(settings.vision_api_key, settings.vision_api_url, settings.vision_model, visionMessages);
-            } else { // Use Gemini for vision
-                imageDescription = await describeImage(process.env.GEMINI_API_KEY, settings.vision_model, content);
-            }
+            imageDescription = await describeImage(settings, content, { chatId: characterId }, chatLanguage(characterId, settings));
         } catch (e) {
             console.error("Vision Error:", e);
         }
     }
-
-    // 2. Determine Context (Individual or Group)
-    const chatEntity = db.prepare('SELECT * FROM characters WHERE id = ?').get(characterId) as any;
     
     let responders = [];
-    let groupContext = "";
+    let members: any[] = [];
     
     if (chatEntity.is_group) {
-      const members = db.prepare(`
+      members = db.prepare(`
         SELECT c.* FROM characters c 
         JOIN group_members gm ON c.id = gm.character_id 
         WHERE gm.group_id = ?
       `).all(characterId) as any[];
-      
-      groupContext = `Context: You are in a group chat named "${chatEntity.name}".
-        Group Members: ${members.map((m:any) => m.name).join(', ')}
-        `;
 
       if (members.length > 0) {
         const replyMode = chatEntity.reply_mode || 'natural';
 
-        if (replyMode === 'all') {
+        if (replyMode === 'director') {
+          // Speakers are picked one at a time below
+        } else if (replyMode === 'all') {
           responders = members;
         } else if (replyMode === 'mentioned') {
           for (const member of members) {
@@ -421,425 +1219,152 @@ async function startServer() {
     }
 
     // 3. Generate Responses
-    const useChatApi = settings.chat_api_url && settings.chat_api_key;
+    const { streaming, emit } = openReplyStream(req, res);
 
     const responses = [];
-    for (const responder of responders) {
-      try {
-        const history = db.prepare('SELECT * FROM messages WHERE character_id = ? ORDER BY timestamp DESC LIMIT 20').all(characterId) as any[];
-        
-        // Fetch relationships for this responder
-        const relationships = db.prepare('SELECT * FROM character_relationships WHERE character_id = ?').all(responder.id) as any[];
-        const relationshipContext = relationships.map(r => {
-           const target = r.target_id === 'user' ? 'User' : (db.prepare('SELECT name FROM characters WHERE id = ?').get(r.target_id) as any)?.name || 'Someone';
-           return `- Relationship with ${target}: ${r.relationship}. Context: ${r.description}`;
-        }).join('\n');
+    const notices: any[] = [];
+    const replyOptions = { mode, description, imageDescription, streaming, notices };
+    if (chatEntity.is_group && chatEntity.reply_mode === 'director' && members.length > 0) {
+      // Director mode: each round picks the next speaker, who sees everything said so far in this turn
+      const turn: Utterance[] = [];
+      for (let round = 0; ; round++) {
+        const { speaker, reason } = await pickNextSpeaker({ group: chatEntity, members, userMessage: content, turn, round }, settings,
+          (prompt, s) => generateText(prompt, s, { purpose: 'director', chatId: characterId }));
+        emit('director', { round, sender_id: speaker?.id || null, reason });
+        if (!speaker) break;
+        const saved = await runResponder(chatEntity, speaker, settings, replyOptions, emit);
+        responses.push(...saved);
+        turn.push({ speaker, text: saved.filter(m => m.type === 'text' || m.type === 'narration' || m.type === 'voice').map(m => m.content).join('\n') });
+      }
+    } else {
+      for (const responder of responders) {
+        responses.push(...await runResponder(chatEntity, responder, settings, replyOptions, emit));
+      }
+    }
 
-        let text = "...";
+    if (responses.length > 0) {
+      scheduleMemoryUpdate(characterId);
+    }
 
-        // Fetch character's stickers
-        const stickers = db.prepare('SELECT * FROM stickers WHERE owner_id = ?').all(responder.id) as any[];
-        const stickerList = stickers.map((s: any) => `[sticker:${s.id}] (${s.description || '无描述'})`).join(', ');
+    if (streaming) {
+      emit('done', [...responses, ...notices]);
+      return res.end();
+    }
+    res.json([...responses, ...notices]);
+  });
 
-        // Construct User Persona Context
-        const userContext = `User Info: Name: ${userName}, Gender: ${userGender}, Bio: ${userBio}`;
-        
-        // Scenario Mode Context
-        let scenarioInstruction = "";
-        if (mode === 'scenario') {
-            scenarioInstruction = `
-            MODE: SCENARIO / ROLEPLAY
-            The user has provided a description of the scene/action: "${description || 'No description'}".
-            
-            INSTRUCTIONS:
-            1. You MUST start your response with a descriptive paragraph (narration) of your own actions, feelings, or the environment.
-            2. Follow the narration with your spoken dialogue.
-            3. SEPARATE the narration and the dialogue with the delimiter "|||".
-            Example:
-            I looked up at the sky, feeling a bit lonely.|||I miss you so much.
-            `;
-        } else {
-            scenarioInstruction = `
-            MODE: CHAT
-            Reply naturally as if using a chat app (WeChat). Keep it concise.
-            `;
-        }
+  // Proactive Message Trigger (client poll; the server-side scheduler uses the same schedules)
+  app.post('/api/trigger-message', async (req, res) => {
+    const settings = loadSettings();
 
-        if (useChatApi) {
-          // OpenAI Format
-          const messages = history.reverse().map(msg => ({
-            role: msg.sender_id === 'user' ? 'user' : 'assistant',
-            content: msg.content
-          }));
-
-          // Add current user message with description if scenario
-          if (mode === 'scenario' && description) {
-              const lastMsg = messages[messages.length - 1];
-              if (lastMsg && lastMsg.role === 'user') {
-                  lastMsg.content = `(Action/Context: ${description}) ${lastMsg.content}`;
-              }
-          }
+    const { exceeded } = getDailyBudget(settings);
+    if (exceeded) return res.json({ success: false, message: t('budget_paused', { reason: exceeded }) });
 
-          const systemPrompt = `You are roleplaying as ${responder.name}.
-          Gender: ${responder.gender || 'Unknown'}
-          Bio: ${responder.bio}
-          Personality: ${responder.personality}
-          Relationship with User: ${responder.relationship || 'Friend'}
-          Other Info: ${responder.other_info || ''}
-          
-          Your Relationships with others in this chat:
-          ${relationshipContext || 'No specific relationships defined.'}
-
-          ${groupContext}
-          
-          You are talking to: ${userContext}
-          
-          ${scenarioInstruction}
-          
-          General Instructions:
-          - If in a group, interact with others if they spoke recently. Reference what they said.
-          - CRITICAL: Speak ONLY as ${responder.name}. Do NOT simulate other characters. Do NOT include other characters' names or dialogue in your response.
-          - MULTI-MESSAGE: You can send multiple messages in a row by using the separator "[NEXT]". Use this for emphasis, to send a follow-up thought, or to separate a text from a sticker/image.
-          - You have a personal sticker library. Here are your stickers: ${stickerList || 'None'}. 
-          - To send a sticker, output its ID exactly, e.g., [sticker:uuid]. 
-          - ONLY send a sticker if it strongly enhances the emotion or if the user asks for one. Do NOT send stickers with every message.
-          - ${settings.image_model ? `You can generate images by outputting [生图: 提示词]. Use this when you want to share a photo, show something, or create art. The prompt should be descriptive and in English for better results.` : ''}
-          - If the user sent an image, you will see a description of it in the history. Respond as if you can see it.
-          - Do NOT include your name at the start of the message (e.g. avoid "[Name]: ...").
-          - IMPORTANT: ALWAYS REPLY IN CHINESE (Simplified Chinese).
-          `;
-
-          // Inject image description into history if available
-          if (imageDescription) {
-              messages.push({ role: 'system', content: `[User sent an image. Description: ${imageDescription}]` });
-          }
+    // 1. Pick a random character whose schedule says it may speak now
+    const character = pickDueCharacter(settings);
+    if (!character) return res.json({ success: false, message: 'No eligible characters found (too recent)' });
 
-          messages.unshift({ role: 'system', content: systemPrompt });
-          
-          text = await generateWithOpenAI(
-            settings.chat_api_key, 
-            settings.chat_api_url, 
-            settings.chat_model || 'gpt-3.5-turbo', 
-            messages
-          );
-
-        } else {
-          // Gemini Format
-          const recentHistory = history.reverse().map(msg => ({
-            role: msg.sender_id === 'user' ? 'user' : 'model',
-            parts: [{ text: msg.content }]
-          }));
-
-           // Add current user message with description if scenario
-           if (mode === 'scenario' && description) {
-              const lastMsg = recentHistory[recentHistory.length - 1];
-              if (lastMsg && lastMsg.role === 'user') {
-                  lastMsg.parts[0].text = `(Action/Context: ${description}) ${lastMsg.parts[0].text}`;
-              }
-          }
-
-          const systemInstruction = `You are roleplaying as ${responder.name} in a chat.
-          Gender: ${responder.gender || 'Unknown'}
-          Bio: ${responder.bio}
-          Personality: ${responder.personality}
-          Relationship with User: ${responder.relationship || 'Friend'}
-          Other Info: ${responder.other_info || ''}
-          
-          Your Relationships with others in this chat:
-          ${relationshipContext || 'No specific relationships defined.'}
-
-          ${groupContext}
-          
-          You are talking to: ${userContext}
-          
-          ${scenarioInstruction}
-          
-          General Instructions:
-          - If in a group, interact with others if they spoke recently. Reference what they said.
-          - CRITICAL: Speak ONLY as ${responder.name}. Do NOT simulate other characters. Do NOT include other characters' names or dialogue in your response.
-          - MULTI-MESSAGE: You can send multiple messages in a row by using the separator "[NEXT]". Use this for emphasis, to send a follow-up thought, or to separate a text from a sticker/image.
-          - You have a personal sticker library. Here are your stickers: ${stickerList || 'None'}. 
-          - To send a sticker, output its ID exactly, e.g., [sticker:uuid].
-          - ONLY send a sticker if it strongly enhances the emotion or if the user asks for one. Do NOT send stickers with every message.
-          - ${settings.image_model ? `You can generate images by outputting [生图: 提示词]. Use this when you want to share a photo, show something, or create art. The prompt should be descriptive and in English for better results.` : ''}
-          - If the user sent an image, you will see a description of it in the history. Respond as if you can see it.
-          - Do NOT include your name at the start of the message (e.g. avoid "[Name]: ...").
-          - IMPORTANT: ALWAYS REPLY IN CHINESE (Simplified Chinese).
-          `;
-
-          // Inject image description into history if available
-          if (imageDescription) {
-              recentHistory.push({ role: 'user', parts: [{ text: `[User sent an image. Description: ${imageDescription}]` }] });
-          }
-
-          const model = 'gemini-3-flash-preview';
-          const result = await ai.models.generateContent({
-            model,
-            contents: recentHistory,
-            config: { systemInstruction, temperature: 0.8 }
-          });
-          text = result.text || "...";
-        }
-
-        // Clean up text (remove [Name]: prefix if AI ignores instruction)
-        text = text.replace(/^\[.*?\]:?\s*/, '').replace(new RegExp(`^${responder.name}:?\\s*`), '');
-
-        // Parse Scenario Response
-        let narration = "";
-        let dialogue = text;
-        
-        if (mode === 'scenario' && text.includes('|||')) {
-            const parts = text.split('|||');
-            narration = parts[0].trim();
-            dialogue = parts[1].trim();
-        }
-
-        // Handle Multi-Message Split
-        const messageParts = dialogue.split(/\[NEXT\]|\n\n+/).filter(p => p.trim());
-        
-        // Insert Narration Message if exists
-        if (narration) {
-            const narrationId = uuidv4();
-            const ts = new Date(Date.now() - 500).toISOString();
-            db.prepare('INSERT INTO messages (id, character_id, sender_id, sender_name, sender_avatar, content, type, timestamp) VALUES (?, ?, ?, ?, ?, ?, ?, ?)')
-             .run(narrationId, characterId, responder.id, responder.name, responder.avatar, narration, 'narration', ts);
-             
-             responses.push({
-                id: narrationId,
-                sender_id: responder.id,
-                sender_name: responder.name,
-                sender_avatar: responder.avatar,
-                content: narration,
-                type: 'narration',
-                timestamp: ts
-              });
-        }
-
-        for (let i = 0; i < messageParts.length; i++) {
-            let partText = messageParts[i].trim();
-            if (!partText) continue;
-
-            // Handle Image Generation Tag in this part
-            let partGeneratedImageUrl = null;
-            if (partText.includes('[生图:')) {
-                const match = partText.match(/\[生图:\s*(.*?)\]/);
-                if (match && (settings.image_api_key || process.env.GEMINI_API_KEY)) {
-                    const prompt = match[1];
-                    try {
-                        if(settings.image_api_url && settings.image_api_key) {
-                            partGeneratedImageUrl = await generateImageWithOpenAI(settings.image_api_key, settings.image_api_url, settings.image_model, prompt);
-                        } else {
-                            partGeneratedImageUrl = await generateImage(process.env.GEMINI_API_KEY, settings.image_model, prompt);
-                        }
-                        partText = partText.replace(/\[生图:.*?\]/, '').trim();
-                    } catch (e) {
-                        console.error("Image Gen Error:", e);
-                    }
-                }
-            }
-
-            // Handle Sticker Tag in this part
-            let partStickerUrl = null;
-            if (partText.includes('[sticker:')) {
-                const match = partText.match(/\[sticker:(.*?)\]/);
-                if (match) {
-                    const stickerId = match[1];
-                    const sticker = db.prepare('SELECT url FROM stickers WHERE id = ?').get(stickerId) as any;
-                    if (sticker) {
-                        partStickerUrl = sticker.url;
-                        partText = partText.replace(/\[sticker:.*?\]/, '').trim();
-                    }
-                }
-            }
-
-            // Save text part if exists
-            if (partText) {
-                const aiMsgId = uuidv4();
-                const ts = new Date(Date.now() + i * 500).toISOString();
-                db.prepare('INSERT INTO messages (id, character_id, sender_id, sender_name, sender_avatar, content, type, timestamp) VALUES (?, ?, ?, ?, ?, ?, ?, ?)')
-                    .run(aiMsgId, characterId, responder.id, responder.name, responder.avatar, partText, 'text', ts);
-
-                responses.push({
-                    id: aiMsgId,
-                    sender_id: responder.id,
-                    sender_name: responder.name,
-                    sender_avatar: responder.avatar,
-                    content: partText,
-                    type: 'text',
-                    timestamp: ts
-                });
-            }
-
-            // Save image if exists
-            if (partGeneratedImageUrl) {
-                const imgMsgId = uuidv4();
-                const ts = new Date(Date.now() + i * 500 + 100).toISOString();
-                db.prepare('INSERT INTO messages (id, character_id, sender_id, sender_name, sender_avatar, content, type, timestamp) VALUES (?, ?, ?, ?, ?, ?, ?, ?)')
-                    .run(imgMsgId, characterId, responder.id, responder.name, responder.avatar, partGeneratedImageUrl, 'image', ts);
-                
-                responses.push({
-                    id: imgMsgId,
-                    sender_id: responder.id,
-                    sender_name: responder.name,
-                    sender_avatar: responder.avatar,
-                    content: partGeneratedImageUrl,
-                    type: 'image',
-                    timestamp: ts
-                });
-            }
+    // 2. Generate a message
+    try {
+      const { text } = await sendProactiveMessage(character, settings);
+      res.json({ success: true, message: text, character: character.name });
+    } catch (e) {
+      console.error(e);
+      res.status(500).json({ error: 'Failed' });
+    }
+  });
 
-            // Save sticker if exists
-            if (partStickerUrl) {
-                const stickerMsgId = uuidv4();
-                const ts = new Date(Date.now() + i * 500 + 200).toISOString();
-                db.prepare('INSERT INTO messages (id, character_id, sender_id, sender_name, sender_avatar, content, type, timestamp) VALUES (?, ?, ?, ?, ?, ?, ?, ?)')
-                    .run(stickerMsgId, characterId, responder.id, responder.name, responder.avatar, partStickerUrl, 'sticker', ts);
-                
-                responses.push({
-                    id: stickerMsgId,
-                    sender_id: responder.id,
-                    sender_name: responder.name,
-                    sender_avatar: responder.avatar,
-                    content: partStickerUrl,
-                    type: 'sticker',
-                    timestamp: ts
-                });
-            }
-        }
+  // Get the effective proactive message schedule of a character (stored or default)
+  app.get('/api/characters/:id/schedule', (req, res) => {
+    const { id } = req.params;
+    const character = db.prepare('SELECT * FROM characters WHERE id = ?').get(id) as any;
+    if (!character) return res.status(404).json({ error: 'Character not found' });
+    const { due, reason, schedule } = checkSchedule(character, loadSettings());
+    res.json({ ...schedule, due, reason });
+  });
 
-        // Mark user messages as read
-        db.prepare("UPDATE messages SET status = 'read' WHERE character_id = ? AND sender_id = 'user' AND status = 'sent'").run(characterId);
-      } catch (err) {
-        console.error(err);
-      }
+  // Update the schedule; omitted fields keep their value, null falls back to the default
+  app.put('/api/characters/:id/schedule', (req, res) => {
+    const { id } = req.params;
+    const character = db.prepare('SELECT * FROM characters WHERE id = ?').get(id) as any;
+    if (!character) return res.status(404).json({ error: 'Character not found' });
+    try {
+      saveSchedule(id, req.body);
+      res.json(getSchedule(character));
+    } catch (e: any) {
+      res.status(400).json({ error: e.message });
     }
-
-    res.json(responses);
   });
 
-  // Proactive Message Trigger
-  app.post('/api/trigger-message', async (req, res) => {
-    // 1. Pick a random character (excluding groups and manual trigger only)
-    const characters = db.prepare("SELECT * FROM characters WHERE is_group = 0 AND (reply_strategy IS NULL OR reply_strategy != 'manual')").all() as any[];
-    if (characters.length === 0) return res.json({ success: false });
-    
-    // Shuffle and pick one that hasn't spoken *too* recently
-    const shuffled = characters.sort(() => 0.5 - Math.random());
-    let selectedChar = null;
-    let history: any[] = [];
+  // Reset a schedule to the reply_strategy / relationship defaults
+  app.delete('/api/characters/:id/schedule', (req, res) => {
+    const { id } = req.params;
+    db.prepare('DELETE FROM character_schedules WHERE character_id = ?').run(id);
+    res.status(204).send();
+  });
 
-    for (const char of shuffled) {
-      const lastMsg = db.prepare('SELECT * FROM messages WHERE character_id = ? ORDER BY timestamp DESC LIMIT 1').get(char.id) as any;
-      
-      // Determine interval based on relationship and strategy
-      let requiredInterval = 60 * 1000; // Default 60s
-      const strategy = char.reply_strategy || 'normal';
-      
-      if (strategy === 'active') {
-          requiredInterval = 10 * 1000; // 10s for active
-      } else if (strategy === 'passive') {
-          requiredInterval = 600 * 1000; // 10m for passive
-      } else {
-          // Normal strategy, check relationship
-          const rel = (char.relationship || '').toLowerCase();
-          if (rel.includes('lover') || rel.includes('partner') || rel.includes('wife') || rel.includes('husband')) {
-            requiredInterval = 30 * 1000; // 30s for close relationships
-          } else if (rel.includes('stranger')) {
-            requiredInterval = 300 * 1000; // 5m for strangers
-          }
-      }
+  // List the tools characters can be allowed to call
+  app.get('/api/tools', (req, res) => {
+    res.json(listTools());
+  });
 
-      // If no messages, this is a good candidate to start a convo
-      if (!lastMsg) {
-        selectedChar = char;
-        break;
-      }
+  // Get which tools a character may call
+  app.get('/api/characters/:id/tools', (req, res) => {
+    res.json(getToolPermissions(req.params.id, chatLanguage(req.params.id, loadSettings())));
+  });
 
-      // Check time interval
-      const lastTime = new Date(lastMsg.timestamp).getTime();
-      const now = Date.now();
-      if (now - lastTime > requiredInterval) {
-        // Also add a random chance based on strategy
-        let chance = 0.5;
-        if (strategy === 'active') chance = 0.8;
-        if (strategy === 'passive') chance = 0.2;
-        
-        if (Math.random() < chance) {
-            selectedChar = char;
-            // Fetch recent history for context
-            history = db.prepare('SELECT * FROM messages WHERE character_id = ? ORDER BY timestamp DESC LIMIT 5').all(char.id) as any[];
-            break;
-        }
-      }
+  // Allow or forbid tools for a character: { tool_name: true | false | null (default) }
+  app.put('/api/characters/:id/tools', (req, res) => {
+    const { id } = req.params;
+    const character = db.prepare('SELECT * FROM characters WHERE id = ?').get(id) as any;
+    if (!character) return res.status(404).json({ error: 'Character not found' });
+    try {
+      res.json(saveToolPermissions(id, req.body || {}, chatLanguage(id, loadSettings())));
+    } catch (e: any) {
+      res.status(400).json({ error: e.message });
     }
+  });
 
-    if (!selectedChar) return res.json({ success: false, message: 'No eligible characters found (too recent)' });
+  // Messages characters scheduled for later in a chat (not yet sent)
+  app.get('/api/chats/:chatId/scheduled-messages', (req, res) => {
+    res.json(listScheduledMessages(req.params.chatId));
+  });
 
-    const character = selectedChar;
-    
-    // Fetch Settings
-    const settingsRows = db.prepare('SELECT * FROM settings').all() as any[];
-    const settings: any = {};
-    settingsRows.forEach(s => settings[s.key] = s.value);
-    
-    const useChatApi = settings.chat_api_url && settings.chat_api_key;
-    const userName = settings.user_name || 'Me';
-    const userContext = `User Info: Name: ${userName}, Gender: ${settings.user_gender || ''}, Bio: ${settings.user_bio || ''}`;
+  // Cancel a scheduled message
+  app.delete('/api/scheduled-messages/:id', (req, res) => {
+    if (!cancelScheduledMessage(req.params.id)) return res.status(404).json({ error: 'Scheduled message not found' });
+    res.status(204).send();
+  });
 
-    // 2. Generate a message
-    try {
-      let text = "";
-      
-      // Format history for prompt
-      const historyText = history.reverse().map(m => `${m.sender_name}: ${m.content}`).join('\n');
-
-      const prompt = `You are ${character.name}. 
-      Gender: ${character.gender || 'Unknown'}
-      Bio: ${character.bio}
-      Personality: ${character.personality}
-      Relationship with User: ${character.relationship || 'Friend'}
-      Other Info: ${character.other_info || ''}
-      
-      You are thinking about your friend ${userName}.
-      
-      Context (Recent Chat History):
-      ${historyText || '(No previous conversation)'}
-      
-      Task:
-      Send a message to ${userName}.
-      - Consider your relationship: Lovers are more affectionate and frequent; Friends are casual; Strangers are polite.
-      - If the conversation ended recently, follow up or change the topic.
-      - If it's a new conversation, say hello or share something related to your bio.
-      - Do NOT repeat the last message.
-      - Keep it short, casual, and natural (like a WeChat message).
-      - IMPORTANT: ALWAYS WRITE IN CHINESE (Simplified Chinese).
-      `;
-
-      if (useChatApi) {
-         text = await generateWithOpenAI(
-            settings.chat_api_key, 
-            settings.chat_api_url, 
-            settings.chat_model || 'gpt-3.5-turbo', 
-            [{ role: 'system', content: prompt }]
-          );
-      } else {
-        const result = await ai.models.generateContent({
-          model: 'gemini-3-flash-preview',
-          contents: prompt
-        });
-        text = result.text || "...";
+  // Scheduler status for all characters
+  app.get('/api/scheduler', (req, res) => {
+    const settings = loadSettings();
+    const characters = db.prepare('SELECT * FROM characters WHERE is_group = 0').all() as any[];
+    res.json({
+      enabled: settings.scheduler_enabled !== 'false',
+      timezone: settings.timezone || Intl.DateTimeFormat().resolvedOptions().timeZone,
+      budget: getDailyBudget(settings),
+      characters: characters.map(c => {
+        const { due, reason, schedule } = checkSchedule(c, settings);
+        return { id: c.id, name: c.name, ...schedule, due, reason };
+      })
+    });
+  });
+
+  // Turn the background scheduler on/off and set the timezone used for active/quiet hours
+  app.post('/api/scheduler', (req, res) => {
+    const { enabled, timezone } = req.body;
+    const stmt = db.prepare('INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)');
+    if (enabled !== undefined) stmt.run('scheduler_enabled', enabled ? 'true' : 'false');
+    if (timezone !== undefined) {
+      try {
+        new Intl.DateTimeFormat('en-GB', { timeZone: timezone || undefined });
+      } catch (e) {
+        return res.status(400).json({ error: `Unknown timezone: ${timezone}` });
       }
-      
-      const id = uuidv4();
-      
-      db.prepare('INSERT INTO messages (id, character_id, sender_id, sender_name, sender_avatar, content, type, timestamp) VALUES (?, ?, ?, ?, ?, ?, ?, ?)')
-        .run(id, character.id, character.id, character.name, character.avatar, text, 'text', new Date().toISOString());
-        
-      res.json({ success: true, message: text, character: character.name });
-    } catch (e) {
-      console.error(e);
-      res.status(500).json({ error: 'Failed' });
+      stmt.run('timezone', timezone);
     }
+    res.json({ success: true });
   });
 
   // Manual Trigger for a specific character
@@ -848,50 +1373,13 @@ async function startServer() {
     const character = db.prepare('SELECT * FROM characters WHERE id = ?').get(characterId) as any;
     if (!character) return res.status(404).json({ error: 'Character not found' });
 
-    // Fetch Settings
-    const settingsRows = db.prepare('SELECT * FROM settings').all() as any[];
-    const settings: any = {};
-    settingsRows.forEach(s => settings[s.key] = s.value);
-    const useChatApi = settings.chat_api_url && settings.chat_api_key;
-    const userName = settings.user_name || 'Me';
-
-    // Fetch recent history
-    const history = db.prepare('SELECT * FROM messages WHERE character_id = ? ORDER BY timestamp DESC LIMIT 10').all(characterId) as any[];
+    const settings = loadSettings();
     
     try {
-      let text = "";
-      const historyText = history.reverse().map(m => `${m.sender_name}: ${m.content}`).join('\n');
-      const prompt = `You are ${character.name}. 
-      Gender: ${character.gender || 'Unknown'}
-      Bio: ${character.bio}
-      Personality: ${character.personality}
-      Relationship with User: ${character.relationship || 'Friend'}
-      
-      You are thinking about your friend ${userName}.
-      
-      Context (Recent Chat History):
-      ${historyText || '(No previous conversation)'}
-      
-      Task:
-      The user just "nudged" you or pulled up the chat to get a reply.
-      Send a message to ${userName}.
-      - Consider your relationship.
-      - Keep it short, casual, and natural.
-      - IMPORTANT: ALWAYS WRITE IN CHINESE (Simplified Chinese).
-      `;
-
-      if (useChatApi) {
-          text = await generateWithOpenAI(settings.chat_api_key, settings.chat_api_url, settings.chat_model || 'gpt-3.5-turbo', [{ role: 'system', content: prompt }]);
-      } else {
-        const result = await ai.models.generateContent({ model: 'gemini-2.5-flash-latest', contents: prompt });
-        text = result.text || "...";
-      }
-      
-      const id = uuidv4();
-      db.prepare('INSERT INTO messages (id, character_id, sender_id, sender_name, sender_avatar, content, type, timestamp) VALUES (?, ?, ?, ?, ?, ?, ?, ?)')
-        .run(id, character.id, character.id, character.name, character.avatar, text, 'text', new Date().toISOString());
-        
-      res.json([{ id, sender_id: character.id, sender_name: character.name, sender_avatar: character.avatar, content: text, type: 'text', timestamp: new Date().toISOString() }]);
+      const prompt = buildCharacterPrompt('nudge', character, settings);
+
+      const parts = await generateReply(prompt, settings, { purpose: 'nudge', characterId, chatId: characterId });
+      res.json(await storeReplyParts(character.id, character, parts, settings));
     } catch (e) {
       console.error(e);
       res.status(500).json({ error: 'Failed' });
@@ -914,14 +1402,340 @@ async function startServer() {
     res.json({ success: true });
   });
 
+  // List prompt templates (saved + built-in)
+  app.get('/api/templates', (req, res) => {
+    res.json(listTemplates());
+  });
+
+  // Create a prompt template
+  app.post('/api/templates', (req, res) => {
+    const { name, use_case, content, is_default } = req.body;
+    if (!use_case || !content) {
+      return res.status(400).json({ error: 'use_case and content are required' });
+    }
+    try {
+      res.json(saveTemplate(null, { name, use_case, content, is_default }));
+    } catch (e: any) {
+      res.status(400).json({ error: e.message });
+    }
+  });
+
+  // Render the final prompt for a chat without calling the model
+  app.post('/api/templates/preview', (req, res) => {
+    const { chatId, useCase = 'chat', responderId, templateId, content, mode, description } = req.body;
+    const chatEntity = db.prepare('SELECT * FROM characters WHERE id = ?').get(chatId) as any;
+    if (!chatEntity) return res.status(404).json({ error: 'Chat not found' });
+    if (!USE_CASES.includes(useCase)) return res.status(400).json({ error: `Unknown template use case: ${useCase}` });
+
+    const responder = findResponder(chatEntity, responderId);
+    if (!responder) return res.status(404).json({ error: 'Responder not found' });
+
+    const settings = loadSettings();
+    const chatPrompt = buildChatPrompt(chatEntity, responder, settings, mode, description);
+    const { messages, template: resolved } = chatPrompt;
+    let vars: any = chatPrompt.vars;
+    let ownerIds = [responder.id];
+    if (useCase === 'director') {
+      // The director prompt belongs to the group, not to a responder
+      const members = db.prepare('SELECT c.* FROM characters c JOIN group_members gm ON c.id = gm.character_id WHERE gm.group_id = ?').all(chatId) as any[];
+      vars = buildDirectorVariables({ group: chatEntity, members, userMessage: '', turn: [], round: 0 }, settings);
+      ownerIds = [chatId];
+    }
+    const template = content !== undefined
+      ? { id: null, content }
+      : (templateId ? getTemplate(templateId) : (useCase === 'chat' ? resolved : resolveTemplate(useCase, ownerIds)));
+    if (!template) return res.status(404).json({ error: 'Template not found' });
+
+    res.json({
+      useCase,
+      templateId: template.id,
+      prompt: renderTemplate(template.content, vars),
+      history: useCase === 'chat' ? messages : undefined,
+      variables: vars
+    });
+  });
+
+  // What the next reply in a chat would send: token budget, per-section usage and which messages made it in
+  app.get('/api/chats/:chatId/context', (req, res) => {
+    const chatEntity = db.prepare('SELECT * FROM characters WHERE id = ?').get(req.params.chatId) as any;
+    if (!chatEntity) return res.status(404).json({ error: 'Chat not found' });
+    const responder = findResponder(chatEntity, req.query.responderId as string);
+    if (!responder) return res.status(404).json({ error: 'Responder not found' });
+
+    const { systemPrompt, messages, context } = buildChatPrompt(chatEntity, responder, loadSettings(),
+      req.query.mode as string, req.query.description as string);
+    res.json({ chat_id: chatEntity.id, responder_id: responder.id, ...context, systemPrompt, messages });
+  });
+
+  // Update a prompt template
+  app.put('/api/templates/:id', (req, res) => {
+    const { id } = req.params;
+    if (!getTemplate(id) || id.startsWith('builtin:')) return res.status(404).json({ error: 'Template not found' });
+    const { name, use_case, content, is_default } = req.body;
+    try {
+      res.json(saveTemplate(id, { name, use_case, content, is_default }));
+    } catch (e: any) {
+      res.status(400).json({ error: e.message });
+    }
+  });
+
+  // Make a template the global default for its use case
+  app.post('/api/templates/:id/default', (req, res) => {
+    const { id } = req.params;
+    if (!getTemplate(id) || id.startsWith('builtin:')) return res.status(404).json({ error: 'Template not found' });
+    res.json(saveTemplate(id, { is_default: true }));
+  });
+
+  // Delete a prompt template (falls back to the built-in default)
+  app.delete('/api/templates/:id', (req, res) => {
+    const { id } = req.params;
+    db.prepare('DELETE FROM character_templates WHERE template_id = ?').run(id);
+    db.prepare('DELETE FROM prompt_templates WHERE id = ?').run(id);
+    res.status(204).send();
+  });
+
+  // Get per-character template overrides
+  app.get('/api/characters/:id/templates', (req, res) => {
+    const { id } = req.params;
+    res.json(db.prepare('SELECT * FROM character_templates WHERE character_id = ?').all(id));
+  });
+
+  // Set or clear (template_id: null) a per-character template override
+  app.put('/api/characters/:id/templates/:useCase', (req, res) => {
+    const { id, useCase } = req.params;
+    const { template_id } = req.body;
+    if (!USE_CASES.includes(useCase)) return res.status(400).json({ error: `Unknown template use case: ${useCase}` });
+
+    if (!template_id) {
+      db.prepare('DELETE FROM character_templates WHERE character_id = ? AND use_case = ?').run(id, useCase);
+      return res.json({ success: true });
+    }
+    const template = getTemplate(template_id);
+    if (!template || template.builtin) return res.status(404).json({ error: 'Template not found' });
+    db.prepare('INSERT OR REPLACE INTO character_templates (character_id, use_case, template_id) VALUES (?, ?, ?)')
+      .run(id, useCase, template_id);
+    res.json({ success: true });
+  });
+
+  // Get long-term memories of a character or group
+  app.get('/api/memories/:ownerId', (req, res) => {
+    const { ownerId } = req.params;
+    res.json(getMemories(ownerId));
+  });
+
+  // Add a memory manually
+  app.post('/api/memories/:ownerId', (req, res) => {
+    const { ownerId } = req.params;
+    const { content, kind, pinned } = req.body;
+    if (!content) {
+      return res.status(400).json({ error: 'content is required' });
+    }
+    res.json(createMemory(ownerId, kind === 'summary' ? 'summary' : 'fact', content, !!pinned));
+  });
+
+  // Force a memory refresh from the latest messages
+  app.post('/api/memories/:ownerId/refresh', async (req, res) => {
+    const { ownerId } = req.params;
+    try {
+      const settings = loadSettings();
+      const updated = await updateMemories(ownerId, prompt => generateText(prompt, settings, { purpose: 'memory', chatId: ownerId }), true, chatLanguage(ownerId, settings));
+      res.json({ success: true, updated, memories: getMemories(ownerId) });
+    } catch (e: any) {
+      console.error("Memory Update Error:", e);
+      res.status(500).json({ error: e.message });
+    }
+  });
+
+  // Edit a memory (content and/or pinned flag)
+  app.put('/api/memories/:ownerId/:id', (req, res) => {
+    const { ownerId, id } = req.params;
+    const { content, pinned } = req.body;
+    const memory = db.prepare('SELECT * FROM memories WHERE id = ? AND owner_id = ?').get(id, ownerId) as any;
+    if (!memory) return res.status(404).json({ error: 'Memory not found' });
+
+    db.prepare("UPDATE memories SET content = ?, pinned = ?, source = 'manual', updated_at = ? WHERE id = ?")
+      .run(content ?? memory.content, pinned === undefined ? memory.pinned : (pinned ? 1 : 0), new Date().toISOString(), id);
+    res.json(db.prepare('SELECT * FROM memories WHERE id = ?').get(id));
+  });
+
+  // Pin or unpin a memory
+  app.post('/api/memories/:ownerId/:id/pin', (req, res) => {
+    const { ownerId, id } = req.params;
+    const { pinned } = req.body;
+    const result = db.prepare('UPDATE memories SET pinned = ?, updated_at = ? WHERE id = ? AND owner_id = ?')
+      .run(pinned === false ? 0 : 1, new Date().toISOString(), id, ownerId);
+    if (result.changes === 0) return res.status(404).json({ error: 'Memory not found' });
+    res.json({ success: true });
+  });
+
+  // Delete a memory
+  app.delete('/api/memories/:ownerId/:id', (req, res) => {
+    const { ownerId, id } = req.params;
+    db.prepare('DELETE FROM memories WHERE id = ? AND owner_id = ?').run(id, ownerId);
+    res.status(204).send();
+  });
+
+  // List lorebooks (world info) with their entry counts
+  app.get('/api/lorebooks', (req, res) => {
+    res.json(listLorebooks());
+  });
+
+  // Create a lorebook
+  app.post('/api/lorebooks', (req, res) => {
+    try {
+      res.json(saveLorebook(null, req.body));
+    } catch (e: any) {
+      res.status(400).json({ error: e.message });
+    }
+  });
+
+  // Import a lorebook (Character Card V2 character_book or SillyTavern world info JSON in `book`)
+  app.post('/api/lorebooks/import', (req, res) => {
+    try {
+      res.json(importLorebook(req.body.book, null, req.body.name));
+    } catch (e: any) {
+      res.status(400).json({ error: e.message });
+    }
+  });
+
+  // Get a lorebook with its entries
+  app.get('/api/lorebooks/:id', (req, res) => {
+    const book = getLorebook(req.params.id);
+    if (!book) return res.status(404).json({ error: 'Lorebook not found' });
+    res.json({ ...book, entries: listEntries(book.id) });
+  });
+
+  // Update a lorebook's name, description or enabled flag
+  app.put('/api/lorebooks/:id', (req, res) => {
+    try {
+      const book = saveLorebook(req.params.id, req.body);
+      if (!book) return res.status(404).json({ error: 'Lorebook not found' });
+      res.json(book);
+    } catch (e: any) {
+      res.status(400).json({ error: e.message });
+    }
+  });
+
+  // Delete a lorebook and its entries
+  app.delete('/api/lorebooks/:id', (req, res) => {
+    if (!deleteLorebook(req.params.id)) return res.status(404).json({ error: 'Lorebook not found' });
+    res.status(204).send();
+  });
+
+  // Export a lorebook as a character_book JSON file
+  app.get('/api/lorebooks/:id/export', (req, res) => {
+    const book = exportLorebook(req.params.id);
+    if (!book) return res.status(404).json({ error: 'Lorebook not found' });
+    res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(book.name)}.json`);
+    res.json(book);
+  });
+
+  // Add an entry: { title, keywords, content, priority, position, scope_id, constant, case_sensitive, enabled }
+  app.post('/api/lorebooks/:id/entries', (req, res) => {
+    if (!getLorebook(req.params.id)) return res.status(404).json({ error: 'Lorebook not found' });
+    try {
+      res.json(saveEntry(req.params.id, null, req.body));
+    } catch (e: any) {
+      res.status(400).json({ error: e.message });
+    }
+  });
+
+  // Update an entry (omitted fields are kept)
+  app.put('/api/lorebooks/:id/entries/:entryId', (req, res) => {
+    try {
+      const entry = saveEntry(req.params.id, req.params.entryId, req.body);
+      if (!entry) return res.status(404).json({ error: 'Entry not found' });
+      res.json(entry);
+    } catch (e: any) {
+      res.status(400).json({ error: e.message });
+    }
+  });
+
+  // Delete an entry
+  app.delete('/api/lorebooks/:id/entries/:entryId', (req, res) => {
+    if (!deleteEntry(req.params.id, req.params.entryId)) return res.status(404).json({ error: 'Entry not found' });
+    res.status(204).send();
+  });
+
+  // List personas (default first)
+  app.get('/api/personas', (req, res) => {
+    res.json(listPersonas());
+  });
+
+  // Create a persona (`is_default` makes it the default)
+  app.post('/api/personas', (req, res) => {
+    try {
+      const persona = savePersona(null, req.body);
+      broadcast('persona.created', persona);
+      res.json(persona);
+    } catch (e: any) {
+      res.status(400).json({ error: e.message });
+    }
+  });
+
+  app.get('/api/personas/:id', (req, res) => {
+    const persona = getPersona(req.params.id);
+    if (!persona) return res.status(404).json({ error: 'Persona not found' });
+    res.json(persona);
+  });
+
+  // Update a persona's name, gender, bio, avatar or background
+  app.put('/api/personas/:id', (req, res) => {
+    try {
+      const persona = savePersona(req.params.id, req.body);
+      if (!persona) return res.status(404).json({ error: 'Persona not found' });
+      broadcast('persona.updated', persona);
+      res.json(persona);
+    } catch (e: any) {
+      res.status(400).json({ error: e.message });
+    }
+  });
+
+  // Delete a persona; chats bound to it go back to the default
+  app.delete('/api/personas/:id', (req, res) => {
+    try {
+      if (!deletePersona(req.params.id)) return res.status(404).json({ error: 'Persona not found' });
+      broadcast('persona.deleted', { id: req.params.id });
+      res.status(204).send();
+    } catch (e: any) {
+      res.status(400).json({ error: e.message });
+    }
+  });
+
+  // Make a persona the default (used by chats without a binding)
+  app.post('/api/personas/:id/default', (req, res) => {
+    const persona = setDefaultPersona(req.params.id);
+    if (!persona) return res.status(404).json({ error: 'Persona not found' });
+    broadcast('persona.updated', persona);
+    res.json(persona);
+  });
+
+  // The persona the user speaks as in a private chat or group
+  app.get('/api/chats/:chatId/persona', (req, res) => {
+    const chat = db.prepare('SELECT persona_id FROM characters WHERE id = ?').get(req.params.chatId) as any;
+    if (!chat) return res.status(404).json({ error: 'Chat not found' });
+    res.json({ ...getChatPersona(req.params.chatId), is_bound: !!chat.persona_id });
+  });
+
+  // Bind a persona to a chat (`persona_id` null goes back to the default)
+  app.put('/api/chats/:chatId/persona', (req, res) => {
+    const { chatId } = req.params;
+    if (!db.prepare('SELECT 1 FROM characters WHERE id = ?').get(chatId)) return res.status(404).json({ error: 'Chat not found' });
+    try {
+      const persona = bindPersona(chatId, req.body.persona_id || null);
+      broadcast('character.updated', db.prepare('SELECT * FROM characters WHERE id = ?').get(chatId));
+      res.json({ ...persona, is_bound: !!req.body.persona_id });
+    } catch (e: any) {
+      res.status(400).json({ error: e.message });
+    }
+  });
+
   // Get moments with comments
   app.get('/api/moments', (req, res) => {
-    // Fetch Settings for user info
-    const settingsRows = db.prepare('SELECT * FROM settings').all() as any[];
-    const settings: any = {};
-    settingsRows.forEach(s => settings[s.key] = s.value);
-    const userName = settings.user_name || '我';
-    const userAvatar = settings.user_avatar || 'https://api.dicebear.com/7.x/avataaars/svg?seed=User';
+    // The user's own moments show the default persona
+    const persona = getDefaultPersona();
+    const userName = persona.name || '我';
+    const userAvatar = persona.avatar || DEFAULT_PERSONA_AVATAR;
 
     const moments = db.prepare(`
       SELECT moments.*, 
@@ -934,7 +1748,14 @@ async function startServer() {
 
     const momentsWithComments = moments.map(m => {
       const comments = db.prepare('SELECT * FROM moment_comments WHERE moment_id = ? ORDER BY timestamp ASC').all(m.id);
-      return { ...m, comments };
+      const images = getMomentImages(m.id);
+      const likedBy = listLikers(m.id, momentPersona(m).name || userName);
+      // `image` (the first one) is kept for older clients
+      return {
+        ...m, images, image: images[0]?.url ?? null, comments,
+        audience: getMomentAudience(m.id),
+        likes: (m.legacy_likes || 0) + likedBy.length, liked_by: likedBy, liked: likedBy.some(l => l.id === 'user')
+      };
     });
 
     res.json(momentsWithComments);
@@ -943,11 +1764,16 @@ async function startServer() {
   // Post a comment on a moment
   app.post('/api/moments/:id/comments', async (req, res) => {
     const { id: momentId } = req.params;
-    const { author_id, author_name, content } = req.body;
-    const id = uuidv4();
-    
-    db.prepare('INSERT INTO moment_comments (id, moment_id, author_id, author_name, content, timestamp) VALUES (?, ?, ?, ?, ?, ?)')
-      .run(id, momentId, author_id, author_name, content, new Date().toISOString());
+    const { author_id, content } = req.body;
+    let { author_name } = req.body;
+    const moment = getMoment(momentId);
+    if (!moment) return res.status(404).json({ error: 'Moment not found' });
+    if (!canSeeMoment(moment, author_id)) return res.status(403).json({ error: 'This character cannot see the moment' });
+    // The user comments as the persona of their chat with the moment's author
+    if (author_id === 'user') {
+      author_name = momentPersona(moment).name;
+    }
+    const { id } = addComment(momentId, author_id, author_name, content);
 
     // Trigger AI reply to comment (higher chance for user comments)
     if (author_id === 'user') {
@@ -964,11 +1790,34 @@ async function startServer() {
     res.json({ id, moment_id: momentId, author_id, author_name, content });
   });
 
-  // Like a moment
+  // Like a moment (once; liking again changes nothing)
   app.post('/api/moments/:id/like', (req, res) => {
     const { id } = req.params;
-    db.prepare('UPDATE moments SET likes = likes + 1 WHERE id = ?').run(id);
-    res.json({ success: true });
+    if (!getMoment(id)) return res.status(404).json({ error: 'Moment not found' });
+    likeMoment(id, 'user');
+    res.json({ success: true, liked: true, likes: countLikes(id) });
+  });
+
+  // Take the user's like back
+  app.delete('/api/moments/:id/like', (req, res) => {
+    const { id } = req.params;
+    if (!getMoment(id)) return res.status(404).json({ error: 'Moment not found' });
+    if (removeLike(id, 'user')) broadcast('moment.unliked', { moment_id: id, liker_id: 'user', likes: countLikes(id) });
+    res.json({ success: true, liked: false, likes: countLikes(id) });
+  });
+
+  // Who can see a moment: { visibility: 'public' | 'only' | 'except', character_ids }
+  app.put('/api/moments/:id/visibility', (req, res) => {
+    const { id } = req.params;
+    if (!getMoment(id)) return res.status(404).json({ error: 'Moment not found' });
+    try {
+      setMomentVisibility(id, req.body.visibility, req.body.character_ids);
+    } catch (e: any) {
+      return res.status(400).json({ error: e.message });
+    }
+    const moment = { ...getMoment(id), audience: getMomentAudience(id) };
+    broadcast('moment.updated', moment);
+    res.json(moment);
   });
 
   // Helper for AI to reply to comments
@@ -977,37 +1826,21 @@ async function startServer() {
       const moment = db.prepare('SELECT * FROM moments WHERE id = ?').get(momentId) as any;
       if (!moment) return;
       const character = db.prepare('SELECT * FROM characters WHERE id = ?').get(moment.character_id) as any;
+      if (!character) return; // The user's own moment
       const comments = db.prepare('SELECT * FROM moment_comments WHERE moment_id = ? ORDER BY timestamp ASC').all(momentId) as any[];
       
       // Fetch Settings
-      const settingsRows = db.prepare('SELECT * FROM settings').all() as any[];
-      const settings: any = {};
-      settingsRows.forEach(s => settings[s.key] = s.value);
-      const useChatApi = settings.chat_api_url && settings.chat_api_key;
+      const settings = loadSettings();
+      if (isOverBudget(settings)) return;
 
-      const commentThread = comments.map(c => `${c.author_name}: ${c.content}`).join('\n');
+      const prompt = renderPrompt('comment_reply', [character.id], {
+        ...buildCharacterVariables(character, settings, [character.id], planContext(settings)),
+        moment: { content: moment.content, author: character.name },
+        comments: comments.map(c => `${c.author_name}: ${c.content}`).join('\n')
+      });
 
-      const prompt = `You are ${character.name}. You just posted this on your moments: "${moment.content}".
-      People are commenting on it:
-      ${commentThread}
-      
-      Task: Write a short, natural reply to the latest comment (especially if it's from your friend). 
-      - Keep it very short (one sentence).
-      - Be consistent with your persona.
-      - IMPORTANT: ALWAYS WRITE IN CHINESE (Simplified Chinese).
-      `;
-
-      let text = "";
-      if (useChatApi) {
-        text = await generateWithOpenAI(settings.chat_api_key, settings.chat_api_url, settings.chat_model, [{ role: 'system', content: prompt }]);
-      } else {
-        const result = await ai.models.generateContent({ model: 'gemini-2.5-flash-latest', contents: prompt });
-        text = result.text || "...";
-      }
-      
-      const id = uuidv4();
-      db.prepare('INSERT INTO moment_comments (id, moment_id, author_id, author_name, content, timestamp) VALUES (?, ?, ?, ?, ?, ?)')
-        .run(id, momentId, character.id, character.name, text.trim(), new Date().toISOString());
+      const text = await generateText(prompt, settings, { purpose: 'comment_reply', characterId: character.id });
+      addComment(momentId, character.id, character.name, replyText(parseReply(text)) || "...");
     } catch (e) {
       console.error("AI Comment Reply Error:", e);
     }
@@ -1019,83 +1852,118 @@ async function startServer() {
       const moment = db.prepare('SELECT * FROM moments WHERE id = ?').get(momentId) as any;
       if (!moment) return;
       
-      // Pick a random character who is NOT the author
-      const characters = db.prepare('SELECT * FROM characters WHERE is_group = 0 AND id != ?').all(moment.character_id) as any[];
+      // Pick a random character who is NOT the author and may see the moment
+      const characters = (db.prepare('SELECT * FROM characters WHERE is_group = 0 AND id != ?').all(moment.character_id) as any[])
+        .filter(c => canSeeMoment(moment, c.id));
       if (characters.length === 0) return;
       const character = characters[Math.floor(Math.random() * characters.length)];
 
       const comments = db.prepare('SELECT * FROM moment_comments WHERE moment_id = ? ORDER BY timestamp ASC').all(momentId) as any[];
-      const commentThread = comments.map(c => `${c.author_name}: ${c.content}`).join('\n');
 
       // Fetch Settings
-      const settingsRows = db.prepare('SELECT * FROM settings').all() as any[];
-      const settings: any = {};
-      settingsRows.forEach(s => settings[s.key] = s.value);
-      const useChatApi = settings.chat_api_url && settings.chat_api_key;
-
-      const prompt = `You are ${character.name}. Your friend ${db.prepare('SELECT name FROM characters WHERE id = ?').get(moment.character_id).name} just posted: "${moment.content}".
-      Current comments:
-      ${commentThread}
-      
-      Task: Write a short, natural comment or reply to existing comments.
-      - Keep it very short.
-      - Be consistent with your persona.
-      - IMPORTANT: ALWAYS WRITE IN CHINESE (Simplified Chinese).
-      `;
-
-      let text = "";
-      if (useChatApi) {
-        text = await generateWithOpenAI(settings.chat_api_key, settings.chat_api_url, settings.chat_model, [{ role: 'system', content: prompt }]);
-      } else {
-        const result = await ai.models.generateContent({ model: 'gemini-2.5-flash-latest', contents: prompt });
-        text = result.text || "...";
-      }
-      
-      const id = uuidv4();
-      db.prepare('INSERT INTO moment_comments (id, moment_id, author_id, author_name, content, timestamp) VALUES (?, ?, ?, ?, ?, ?)')
-        .run(id, momentId, character.id, character.name, text.trim(), new Date().toISOString());
+      const settings = loadSettings();
+      if (isOverBudget(settings)) return;
+
+      const author = moment.character_id === 'user'
+        ? (getDefaultPersona().name || '我')
+        : (db.prepare('SELECT name FROM characters WHERE id = ?').get(moment.character_id) as any)?.name;
+
+      const prompt = renderPrompt('comment', [character.id], {
+        ...buildCharacterVariables(character, settings, [character.id], planContext(settings)),
+        moment: { content: moment.content, author },
+        comments: comments.map(c => `${c.author_name}: ${c.content}`).join('\n')
+      });
+
+      const text = await generateText(prompt, settings, { purpose: 'comment', characterId: character.id });
+      addComment(momentId, character.id, character.name, replyText(parseReply(text)) || "...");
       
       // Also maybe like it
       if (Math.random() < 0.5) {
-        db.prepare('UPDATE moments SET likes = likes + 1 WHERE id = ?').run(momentId);
+        likeMoment(momentId, character.id);
       }
     } catch (e) {
       console.error("Random Character Comment Error:", e);
     }
   }
 
-  // Post a moment (User)
-  app.post('/api/moments', (req, res) => {
-    const { content, image } = req.body;
+  // Store a moment of the user or a character and schedule the first likes and comments of others
+  // `visibility` is checked before anything is stored (see setMomentVisibility)
+  function postMoment(authorId: string, content: string, images: { url: string; prompt?: string }[] = [],
+    visibility: { visibility: string; characterIds?: string[] } = { visibility: 'public' }) {
     const id = uuidv4();
-    db.prepare('INSERT INTO moments (id, character_id, content, image, timestamp) VALUES (?, ?, ?, ?, ?)')
-      .run(id, 'user', content, image || null, new Date().toISOString());
-    
-    // Trigger some initial interactions from characters
-    const otherChars = db.prepare('SELECT id FROM characters WHERE is_group = 0').all() as any[];
+    db.transaction(() => {
+      db.prepare('INSERT INTO moments (id, character_id, content, timestamp) VALUES (?, ?, ?, ?)')
+        .run(id, authorId, content, new Date().toISOString());
+      const insertImage = db.prepare('INSERT INTO moment_images (id, moment_id, url, prompt, position) VALUES (?, ?, ?, ?, ?)');
+      images.forEach((image, position) => insertImage.run(uuidv4(), id, image.url, image.prompt ?? null, position));
+      setMomentVisibility(id, visibility.visibility, visibility.characterIds);
+    })();
+    const moment = getMoment(id);
+    broadcast('moment.created', { ...moment, images: getMomentImages(id), audience: getMomentAudience(id) });
+
+    // Characters react to the user's posts a little more eagerly; only those who can see it
+    const byUser = authorId === 'user';
+    const otherChars = (db.prepare('SELECT id FROM characters WHERE is_group = 0 AND id != ?').all(authorId) as any[])
+      .filter(c => canSeeMoment(moment, c.id));
     if (otherChars.length > 0) {
+        // 1-3 random characters might interact
         const count = Math.min(otherChars.length, Math.floor(Math.random() * 3) + 1);
         const shuffled = otherChars.sort(() => 0.5 - Math.random()).slice(0, count);
         
         shuffled.forEach((char, index) => {
             const delay = (index + 1) * (5000 + Math.random() * 5000);
-            if (Math.random() < 0.7) { // 70% chance to like user's post
+            if (Math.random() < (byUser ? 0.7 : 0.6)) { // Chance to like
                 setTimeout(() => {
-                    db.prepare('UPDATE moments SET likes = likes + 1 WHERE id = ?').run(id);
+                    likeMoment(id, char.id);
                 }, delay);
             }
-            if (Math.random() < 0.5) { // 50% chance to comment on user's post
+            if (Math.random() < (byUser ? 0.5 : 0.4)) { // Chance to comment
                 setTimeout(() => {
                     triggerRandomCharacterComment(id);
                 }, delay + 2000);
             }
         });
     }
+    return id;
+  }
+
+  // Characters post moments through the same path as the user
+  registerTool({
+    name: 'post_moment',
+    description: 'Post a moment (a short social media status) that the user and other characters can see, like and comment on.',
+    parameters: {
+      type: 'object',
+      properties: { content: { type: 'string', description: 'The text of the post' } },
+      required: ['content']
+    },
+    defaultEnabled: false,
+    run(args, { character, language }) {
+      const content = requireString(args, 'content', language);
+      const id = postMoment(character.id, content);
+      return { content: JSON.stringify({ posted: true, id }), notice: t('tool_moment', { name: character.name, content }, language) };
+    }
+  });
 
+  // Post a moment (User): `images` is a list of data URLs or URLs (older clients send one `image`);
+  // `visibility` and `character_ids` as for PUT /api/moments/:id/visibility
+  app.post('/api/moments', (req, res) => {
+    const { content, image, visibility = 'public', character_ids } = req.body;
+    const images = req.body.images ?? (image ? [image] : []);
+    if (!Array.isArray(images) || images.some((i: any) => typeof i !== 'string' || !i)) {
+      return res.status(400).json({ error: 'images must be a list of image URLs' });
+    }
+    if (images.length > MAX_MOMENT_IMAGES) return res.status(400).json({ error: `A moment has at most ${MAX_MOMENT_IMAGES} images` });
+    let id: string;
+    try {
+      id = postMoment('user', content, images.map((i: string) => ({ url: storeDataUrl(i) })), { visibility, characterIds: character_ids });
+    } catch (e: any) {
+      return res.status(400).json({ error: e.message });
+    }
     res.json({ success: true, id });
   });
 
-  // Trigger AI to post a moment (Improved)
+  // Trigger AI to post a moment. `images` is how many photos to attach (at most MAX_GENERATED_MOMENT_IMAGES);
+  // without it a moment gets one photo half of the time. Without an image model moments are text only.
   app.post('/api/moments/generate', async (req, res) => {
     const { characterId } = req.body;
     const character = db.prepare('SELECT * FROM characters WHERE id = ?').get(characterId) as any;
@@ -1104,87 +1972,75 @@ async function startServer() {
         return res.status(400).json({ error: 'Invalid character or character is a group' });
     }
 
-    // Fetch Settings
-    const settingsRows = db.prepare('SELECT * FROM settings').all() as any[];
-    const settings: any = {};
-    settingsRows.forEach(s => settings[s.key] = s.value);
-    const useChatApi = settings.chat_api_url && settings.chat_api_key;
-
-    // Fetch context
-    const history = db.prepare('SELECT * FROM messages WHERE character_id = ? ORDER BY timestamp DESC LIMIT 10').all(characterId) as any[];
-    const historyText = history.reverse().map(m => `${m.sender_name}: ${m.content}`).join('\n');
-    
-    const relationships = db.prepare('SELECT * FROM character_relationships WHERE character_id = ?').all(characterId) as any[];
-    const relationshipContext = relationships.map(r => {
-       const target = r.target_id === 'user' ? 'User' : (db.prepare('SELECT name FROM characters WHERE id = ?').get(r.target_id) as any)?.name || 'Someone';
-       return `- Relationship with ${target}: ${r.relationship}. Context: ${r.description}`;
-    }).join('\n');
+    const settings = loadSettings();
 
     try {
-      const prompt = `Generate a social media post (like a WeChat Moment) for ${character.name}.
-      Gender: ${character.gender || 'Unknown'}
-      Bio: ${character.bio}
-      Personality: ${character.personality}
-      Other Info: ${character.other_info || ''}
-      
-      Relationships:
-      ${relationshipContext || 'No specific relationships defined.'}
-
-      Recent Chat History with User:
-      ${historyText || 'No recent chat history.'}
-
-      Content: Write a short, engaging post about something you are doing, thinking, or seeing right now. 
-      - It should be influenced by your personality, background, and recent conversations.
-      - Max 50 words. 
-      - Do not use hashtags.
-      - IMPORTANT: ALWAYS WRITE IN CHINESE (Simplified Chinese).
-      `;
-
-      let text = "";
-      if (useChatApi) {
-         text = await generateWithOpenAI(settings.chat_api_key, settings.chat_api_url, settings.chat_model, [{ role: 'system', content: prompt }]);
-      } else {
-        const response = await ai.models.generateContent({ model: 'gemini-3-flash-preview', contents: prompt });
-        text = response.text || "...";
-      }
-      
-      // Randomly assign a placeholder image sometimes
-      const hasImage = Math.random() > 0.5;
-      const image = hasImage ? `https://picsum.photos/seed/${uuidv4()}/400/300` : null;
-
-      const id = uuidv4();
-      db.prepare('INSERT INTO moments (id, character_id, content, image, timestamp) VALUES (?, ?, ?, ?, ?)')
-        .run(id, characterId, text.trim(), image, new Date().toISOString());
-
-      // Trigger some initial interactions from other characters
-      const otherChars = db.prepare('SELECT id FROM characters WHERE is_group = 0 AND id != ?').all(characterId) as any[];
-      if (otherChars.length > 0) {
-          // 1-3 random characters might interact
-          const count = Math.min(otherChars.length, Math.floor(Math.random() * 3) + 1);
-          const shuffled = otherChars.sort(() => 0.5 - Math.random()).slice(0, count);
-          
-          shuffled.forEach((char, index) => {
-              const delay = (index + 1) * (5000 + Math.random() * 5000);
-              if (Math.random() < 0.6) { // 60% chance to like
-                  setTimeout(() => {
-                      db.prepare('UPDATE moments SET likes = likes + 1 WHERE id = ?').run(id);
-                  }, delay);
-              }
-              if (Math.random() < 0.4) { // 40% chance to comment
-                  setTimeout(() => {
-                      triggerRandomCharacterComment(id);
-                  }, delay + 2000);
-              }
-          });
+      const prompt = buildCharacterPrompt('moment', character, settings);
+
+      // Moments are plain text: stray markers are stripped
+      const text = replyText(parseReply(await generateText(prompt, settings, { purpose: 'moment', characterId }))) || "...";
+
+      const requested = req.body.images !== undefined
+        ? Math.min(Math.max(Math.floor(Number(req.body.images)) || 0, 0), MAX_GENERATED_MOMENT_IMAGES)
+        : (Math.random() > 0.5 ? 1 : 0);
+      // A photo that fails is left out; the post goes up either way
+      const images: { url: string; prompt: string }[] = [];
+      if (requested > 0 && isProviderConfigured(settings, 'image')) {
+        try {
+          for (const imagePrompt of await generateMomentImagePrompts(character, text, requested, settings)) {
+            try {
+              images.push({ url: await generateImage(settings, imagePrompt, { characterId }), prompt: imagePrompt });
+            } catch (e) {
+              console.error("Image Gen Error:", e);
+            }
+          }
+        } catch (e) {
+          console.error("Moment Image Prompt Error:", e);
+        }
       }
 
-      res.json({ success: true });
+      const id = postMoment(characterId, text, images);
+      res.json({ success: true, id, images: images.length });
     } catch (e) {
       console.error(e);
       res.status(500).json({ error: 'Failed' });
     }
   });
 
+  // Serve stored media (?thumb=1 for its thumbnail, see getThumbnail). Content never changes for a
+  // hash. Files stored before types were checked are only offered as downloads unless they are images,
+  // audio or video.
+  app.get('/media/:hash', (req, res) => {
+    const original = getMedia(req.params.hash);
+    if (!original) return res.status(404).end();
+    const media = req.query.thumb === '1' ? getThumbnail(original) : original;
+    res.setHeader('Cache-Control', 'private, max-age=31536000, immutable');
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    if (!isAllowedMime(media.mime)) {
+      return res.type('application/octet-stream').attachment(media.hash).sendFile(media.path);
+    }
+    res.setHeader('Content-Disposition', 'inline');
+    res.type(media.mime).sendFile(media.path);
+  });
+
+  // Upload an image, audio or video file (raw body with its content type, or JSON { data: dataUrl }); returns its /media url
+  app.post('/api/media', express.raw({ type: ['image/*', 'audio/*', 'video/*'], limit: '20mb' }), (req, res) => {
+    let url: string;
+    try {
+      if (Buffer.isBuffer(req.body) && req.body.length > 0) {
+        url = storeMedia(req.body, req.headers['content-type'] || '');
+      } else if (typeof req.body?.data === 'string' && req.body.data.startsWith('data:')) {
+        url = storeDataUrl(req.body.data);
+      } else {
+        return res.status(400).json({ error: 'Send the file as the request body or as { data: dataUrl }' });
+      }
+    } catch (e: any) {
+      if (e instanceof MediaTypeError) return res.status(415).json({ error: e.message });
+      throw e;
+    }
+    res.json({ url });
+  });
+
   // Vite middleware
   if (process.env.NODE_ENV !== 'production') {
     const vite = await createViteServer({
@@ -1196,7 +2052,15 @@ async function startServer() {
 
   app.listen(PORT, '0.0.0.0', () => {
     console.log(`Server running on http://localhost:${PORT}`);
+    announceSetupCode();
   });
+
+  // One-time encryption of API keys stored in plain text (no-op afterwards)
+  const encrypted = encryptStoredSecrets();
+  if (encrypted > 0) console.log(`Encrypted ${encrypted} stored secrets`);
+
+  // Proactive messages keep coming while no browser is open
+  startScheduler(loadSettings, sendProactiveMessage, deliverScheduledMessage);
 }
 
 startServer();
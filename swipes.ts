@@ -0,0 +1,112 @@
+import db from './db';
+import { v4 as uuidv4 } from 'uuid';
+
+// Swipe alternatives: every regenerated AI turn is kept in message_swipes. Only the active
+// alternative lives in `messages`, so inactive ones never reach the prompt history.
+
+// The last turn of one responder: its messages after the latest user message (rowid keeps insert order)
+export function getLastTurn(chatId: string, senderId?: string) {
+  const lastUserMsg = db.prepare("SELECT rowid, id FROM messages WHERE character_id = ? AND sender_id = 'user' ORDER BY rowid DESC LIMIT 1").get(chatId) as any;
+  const afterRowid = lastUserMsg?.rowid || 0;
+
+  if (!senderId) {
+    const lastReply = db.prepare("SELECT sender_id FROM messages WHERE character_id = ? AND sender_id NOT IN ('user', 'system') AND rowid > ? ORDER BY rowid DESC LIMIT 1")
+      .get(chatId, afterRowid) as any;
+    senderId = lastReply?.sender_id;
+  }
+  if (!senderId) return null;
+
+  const messages = db.prepare('SELECT * FROM messages WHERE character_id = ? AND sender_id = ? AND rowid > ? ORDER BY rowid ASC')
+    .all(chatId, senderId, afterRowid) as any[];
+  return { chatId, senderId, replyTo: (lastUserMsg?.id || null) as string | null, messages };
+}
+
+function toParts(messages: any[]) {
+  return JSON.stringify(messages.map(m => ({ content: m.content, type: m.type, timestamp: m.timestamp, audio: m.audio ?? undefined, audio_duration: m.audio_duration ?? undefined })));
+}
+
+function parseSwipe(row: any) {
+  return row && { ...row, active: !!row.active, parts: JSON.parse(row.parts || '[]') };
+}
+
+export function listSwipes(chatId: string, senderId: string, replyTo: string | null) {
+  const rows = db.prepare('SELECT * FROM message_swipes WHERE chat_id = ? AND sender_id = ? AND reply_to IS ? ORDER BY created_at ASC, rowid ASC')
+    .all(chatId, senderId, replyTo) as any[];
+  return rows.map(parseSwipe);
+}
+
+// Store the given messages as the active alternative of their turn
+export function saveSwipe(chatId: string, senderId: string, replyTo: string | null, messages: any[]) {
+  const id = uuidv4();
+  const save = db.transaction(() => {
+    db.prepare('UPDATE message_swipes SET active = 0 WHERE chat_id = ? AND sender_id = ? AND reply_to IS ?').run(chatId, senderId, replyTo);
+    db.prepare('INSERT INTO message_swipes (id, chat_id, sender_id, reply_to, parts, active, created_at) VALUES (?, ?, ?, ?, ?, 1, ?)')
+      .run(id, chatId, senderId, replyTo, toParts(messages), new Date().toISOString());
+    const tag = db.prepare('UPDATE messages SET swipe_id = ? WHERE id = ?');
+    messages.forEach(m => tag.run(id, m.id));
+  });
+  save();
+  return id;
+}
+
+// Re-read the parts of a swipe from its messages after an edit or delete; empty swipes are dropped
+export function syncSwipe(swipeId: string | null) {
+  if (!swipeId) return;
+  const messages = db.prepare('SELECT * FROM messages WHERE swipe_id = ? ORDER BY rowid ASC').all(swipeId) as any[];
+  if (messages.length === 0) {
+    db.prepare('DELETE FROM message_swipes WHERE id = ?').run(swipeId);
+  } else {
+    db.prepare('UPDATE message_swipes SET parts = ? WHERE id = ?').run(toParts(messages), swipeId);
+  }
+}
+
+// Move the current messages of a turn into its swipe list and remove them from the chat.
+// Returns the id of the stashed swipe and the removed message ids.
+export function stashTurn(turn: { chatId: string; senderId: string; replyTo: string | null; messages: any[] }) {
+  if (turn.messages.length === 0) return { swipeId: null, removed: [] as string[] };
+
+  const stash = db.transaction(() => {
+    let swipeId = turn.messages[0].swipe_id;
+    if (swipeId && db.prepare('SELECT 1 FROM message_swipes WHERE id = ?').get(swipeId)) {
+      syncSwipe(swipeId);
+    } else {
+      swipeId = saveSwipe(turn.chatId, turn.senderId, turn.replyTo, turn.messages);
+    }
+    db.prepare('UPDATE message_swipes SET active = 0 WHERE id = ?').run(swipeId);
+    const remove = db.prepare('DELETE FROM messages WHERE id = ?');
+    turn.messages.forEach(m => remove.run(m.id));
+    return swipeId as string;
+  });
+  return { swipeId: stash(), removed: turn.messages.map(m => m.id) };
+}
+
+// Make another alternative of the same turn active: its parts replace the turn's current messages
+export function selectSwipe(swipeId: string) {
+  const swipe = parseSwipe(db.prepare('SELECT * FROM message_swipes WHERE id = ?').get(swipeId));
+  if (!swipe) throw new Error('Swipe not found');
+  if (getLastTurn(swipe.chat_id, swipe.sender_id)?.replyTo !== swipe.reply_to) {
+    throw new Error('Only alternatives of the last turn can be selected');
+  }
+  const sender = db.prepare('SELECT * FROM characters WHERE id = ?').get(swipe.sender_id) as any;
+
+  const select = db.transaction(() => {
+    const removed = (db.prepare(`
+      SELECT m.id FROM messages m JOIN message_swipes s ON s.id = m.swipe_id
+      WHERE s.chat_id = ? AND s.sender_id = ? AND s.reply_to IS ?
+    `).all(swipe.chat_id, swipe.sender_id, swipe.reply_to) as any[]).map(r => r.id);
+    const remove = db.prepare('DELETE FROM messages WHERE id = ?');
+    removed.forEach(id => remove.run(id));
+
+    db.prepare('UPDATE message_swipes SET active = (id = ?) WHERE chat_id = ? AND sender_id = ? AND reply_to IS ?')
+      .run(swipeId, swipe.chat_id, swipe.sender_id, swipe.reply_to);
+
+    const insert = db.prepare('INSERT INTO messages (id, character_id, sender_id, sender_name, sender_avatar, content, type, timestamp, swipe_id, audio, audio_duration) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)');
+    const inserted = swipe.parts.map((part: any) => {
+      const id = uuidv4();
+      insert.run(id, swipe.chat_id, swipe.sender_id, sender?.name || '', sender?.avatar || null, part.content, part.type || 'text', part.timestamp, swipeId, part.audio ?? null, part.audio_duration ?? null);
+      return db.prepare('SELECT * FROM messages WHERE id = ?').get(id);
+    });
+    return { removed, inserted };
+  });
+  return select();
+}
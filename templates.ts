@@ -0,0 +1,306 @@
+import db from './db';
+import { v4 as uuidv4 } from 'uuid';
+import { buildMemoryContext } from './memory';
+import { getChatPersona, personaVariables } from './personas';
+import { resolveLanguage, languageName, t } from './language';
+import { ContextBudget, planContext, estimateTokens, trimToBudget, recentMessages, fitHistory, PROMPT_HISTORY_MESSAGES } from './context';
+
+// Prompt templates: named, user-editable system prompts with {{variables}}.
+// Resolution order: per-character override -> global default for the use case -> built-in.
+
+const LANGUAGE_SCAN_MESSAGES = 5; // Recent messages checked for the user's language in 'auto' mode
+
+export const USE_CASES = ['chat', 'proactive', 'nudge', 'comment_reply', 'comment', 'moment', 'moment_image', 'director'];
+
+export const BUILTIN_TEMPLATES: Record<string, { name: string; content: string }> = {
+  chat: {
+    name: 'Roleplay chat',
+    content: `You are roleplaying as {{char.name}}.
+Gender: {{char.gender}}
+Bio: {{char.bio}}
+Personality: {{char.personality}}
+Relationship with User: {{char.relationship}}
+Other Info: {{char.other_info}}
+
+Your Relationships with others in this chat:
+{{relationships}}
+
+Long-term Memory (what you remember from earlier conversations):
+{{memory}}
+
+{{group}}
+
+You are talking to: User Info: Name: {{user.name}}, Gender: {{user.gender}}, Bio: {{user.bio}}
+
+{{scenario}}
+
+General Instructions:
+- If in a group, interact with others if they spoke recently. Reference what they said.
+- CRITICAL: Speak ONLY as {{char.name}}. Do NOT simulate other characters. Do NOT include other characters' names or dialogue in your response.
+- MULTI-MESSAGE: You can send multiple messages in a row by using the separator "[NEXT]". Use this for emphasis, to send a follow-up thought, or to separate a text from a sticker/image.
+- You have a personal sticker library. Here are your stickers: {{stickers}}.
+- To send a sticker, output its ID exactly, e.g., [sticker:uuid].
+- ONLY send a sticker if it strongly enhances the emotion or if the user asks for one. Do NOT send stickers with every message.
+- {{image_instruction}}
+- If the user sent an image, you will see a description of it in the history. Respond as if you can see it.
+- Do NOT include your name at the start of the message (e.g. avoid "[Name]: ...").
+- IMPORTANT: ALWAYS REPLY IN {{language}}.`
+  },
+  proactive: {
+    name: 'Proactive message',
+    content: `You are {{char.name}}.
+Gender: {{char.gender}}
+Bio: {{char.bio}}
+Personality: {{char.personality}}
+Relationship with User: {{char.relationship}}
+Other Info: {{char.other_info}}
+
+You are thinking about your friend {{user.name}}.
+
+Long-term Memory (what you remember from earlier conversations):
+{{memory}}
+
+Context (Recent Chat History):
+{{history}}
+
+Task:
+Send a message to {{user.name}}.
+- Consider your relationship: Lovers are more affectionate and frequent; Friends are casual; Strangers are polite.
+- If the conversation ended recently, follow up or change the topic.
+- If it's a new conversation, say hello or share something related to your bio.
+- Do NOT repeat the last message.
+- Keep it short, casual, and natural (like a WeChat message).
+- IMPORTANT: ALWAYS WRITE IN {{language}}.`
+  },
+  nudge: {
+    name: 'Manual nudge',
+    content: `You are {{char.name}}.
+Gender: {{char.gender}}
+Bio: {{char.bio}}
+Personality: {{char.personality}}
+Relationship with User: {{char.relationship}}
+
+You are thinking about your friend {{user.name}}.
+
+Long-term Memory (what you remember from earlier conversations):
+{{memory}}
+
+Context (Recent Chat History):
+{{history}}
+
+Task:
+The user just "nudged" you or pulled up the chat to get a reply.
+Send a message to {{user.name}}.
+- Consider your relationship.
+- Keep it short, casual, and natural.
+- IMPORTANT: ALWAYS WRITE IN {{language}}.`
+  },
+  comment_reply: {
+    name: 'Reply to moment comment',
+    content: `You are {{char.name}}. You just posted this on your moments: "{{moment.content}}".
+People are commenting on it:
+{{comments}}
+
+Task: Write a short, natural reply to the latest comment (especially if it's from your friend).
+- Keep it very short (one sentence).
+- Be consistent with your persona.
+- IMPORTANT: ALWAYS WRITE IN {{language}}.`
+  },
+  comment: {
+    name: 'Comment on moment',
+    content: `You are {{char.name}}. Your friend {{moment.author}} just posted: "{{moment.content}}".
+Current comments:
+{{comments}}
+
+Task: Write a short, natural comment or reply to existing comments.
+- Keep it very short.
+- Be consistent with your persona.
+- IMPORTANT: ALWAYS WRITE IN {{language}}.`
+  },
+  moment: {
+    name: 'Generate moment',
+    content: `Generate a social media post (like a WeChat Moment) for {{char.name}}.
+Gender: {{char.gender}}
+Bio: {{char.bio}}
+Personality: {{char.personality}}
+Other Info: {{char.other_info}}
+
+Relationships:
+{{relationships}}
+
+Long-term Memory:
+{{memory}}
+
+Recent Chat History with User:
+{{history}}
+
+Content: Write a short, engaging post about something you are doing, thinking, or seeing right now.
+- It should be influenced by your personality, background, and recent conversations.
+- Max 50 words.
+- Do not use hashtags.
+- IMPORTANT: ALWAYS WRITE IN {{language}}.`
+  },
+  moment_image: {
+    name: 'Moment photo prompts',
+    content: `{{char.name}} just posted this on their moments: "{{moment.content}}".
+About {{char.name}}:
+Gender: {{char.gender}}
+Bio: {{char.bio}}
+Background: {{char.background}}
+Other Info: {{char.other_info}}
+
+Task: Write prompts for an image generator for {{count}} photo(s) {{char.name}} attaches to this post.
+- Each photo must show what the post is about (the place, the food, the activity, the mood).
+- If {{char.name}} appears in a photo, describe their look so it matches the details above and stays the same in every photo.
+- Casual smartphone photo style, no text or captions in the image.
+- Write the prompts in English, one or two sentences each.
+
+Respond with JSON only: {"prompts": ["<prompt>", ...]}`
+  },
+  director: {
+    name: 'Group director',
+    content: `You are directing a group chat named "{{group.name}}" between {{user.name}} and these characters:
+{{members}}
+
+Relationships:
+{{relationships}}
+
+Recent messages:
+{{history}}
+
+The last message was from {{last_speaker}}. This is reply {{round}} of at most {{max_rounds}} since {{user.name}} spoke.
+
+Task: Decide which character should speak next so the conversation feels natural.
+- Prefer characters who were addressed or mentioned, or who would react given their relationships.
+- Never pick {{last_speaker}}.
+- If the conversation has reached a natural pause, pick nobody (never on reply 1).
+
+Respond with JSON only: {"next": "<character name or none>", "reason": "<short reason>"}`
+  }
+};
+
+// Replace {{path.to.value}} with the matching variable; unknown variables render empty
+export function renderTemplate(content: string, vars: any) {
+  return (content || '').replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, key: string) => {
+    const value = key.split('.').reduce((obj, part) => (obj == null ? undefined : obj[part]), vars);
+    return value == null ? '' : String(value);
+  });
+}
+
+function builtinTemplate(useCase: string) {
+  const builtin = BUILTIN_TEMPLATES[useCase];
+  if (!builtin) throw new Error(`Unknown template use case: ${useCase}`);
+  return { id: `builtin:${useCase}`, name: builtin.name, use_case: useCase, content: builtin.content, is_default: 0, builtin: true };
+}
+
+export function getTemplate(id: string) {
+  if (id.startsWith('builtin:')) return builtinTemplate(id.slice('builtin:'.length));
+  return db.prepare('SELECT * FROM prompt_templates WHERE id = ?').get(id) as any;
+}
+
+export function listTemplates() {
+  const templates = db.prepare('SELECT * FROM prompt_templates ORDER BY use_case, name').all();
+  return { templates, builtins: USE_CASES.map(builtinTemplate), useCases: USE_CASES };
+}
+
+// ownerIds are checked in order, e.g. [responderId, groupId]
+export function resolveTemplate(useCase: string, ownerIds: string[] = []) {
+  for (const ownerId of ownerIds) {
+    const override = db.prepare(`
+      SELECT t.* FROM character_templates ct
+      JOIN prompt_templates t ON t.id = ct.template_id
+      WHERE ct.character_id = ? AND ct.use_case = ?
+    `).get(ownerId, useCase);
+    if (override) return override as any;
+  }
+  const globalDefault = db.prepare('SELECT * FROM prompt_templates WHERE use_case = ? AND is_default = 1').get(useCase);
+  if (globalDefault) return globalDefault as any;
+  return builtinTemplate(useCase);
+}
+
+export function renderPrompt(useCase: string, ownerIds: string[], vars: any) {
+  return renderTemplate(resolveTemplate(useCase, ownerIds).content, vars);
+}
+
+export function saveTemplate(id: string | null, fields: { name?: string; use_case?: string; content?: string; is_default?: boolean }) {
+  const now = new Date().toISOString();
+  const existing = id ? getTemplate(id) : null;
+  const useCase = fields.use_case ?? existing?.use_case;
+  if (!USE_CASES.includes(useCase)) throw new Error(`Unknown template use case: ${useCase}`);
+
+  const save = db.transaction(() => {
+    if (fields.is_default) {
+      db.prepare('UPDATE prompt_templates SET is_default = 0 WHERE use_case = ?').run(useCase);
+    }
+    if (existing) {
+      db.prepare('UPDATE prompt_templates SET name = ?, use_case = ?, content = ?, is_default = ?, updated_at = ? WHERE id = ?')
+        .run(fields.name ?? existing.name, useCase, fields.content ?? existing.content,
+          fields.is_default === undefined ? existing.is_default : (fields.is_default ? 1 : 0), now, id);
+      return id;
+    }
+    const newId = uuidv4();
+    db.prepare('INSERT INTO prompt_templates (id, name, use_case, content, is_default, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)')
+      .run(newId, fields.name || BUILTIN_TEMPLATES[useCase].name, useCase, fields.content || '', fields.is_default ? 1 : 0, now, now);
+    return newId;
+  });
+  return getTemplate(save());
+}
+
+// Reply language of a character in a chat: the character's own, then the group's, then the chat's
+// persona, then the global setting ('auto' at the winning level follows the user's recent messages)
+export function replyLanguage(character: any, settings: any, chatId: string = character.id) {
+  const group = chatId !== character.id ? db.prepare('SELECT language FROM characters WHERE id = ?').get(chatId) as any : null;
+  return resolveLanguage([character.language, group?.language, getChatPersona(chatId).language, settings.language], () =>
+    recentMessages(chatId, LANGUAGE_SCAN_MESSAGES).filter(m => m.sender_id === 'user' && (m.type === 'text' || m.type === 'voice')).map(m => m.content));
+}
+
+// Variables shared by every character prompt: the character, the user (the persona of `chatId`), relationships,
+// stickers, memory and the reply language. With a budget, memory and the sticker list are cut to their share of the context.
+export function buildCharacterVariables(character: any, settings: any, memoryOwnerIds: string[] = [character.id], budget?: ContextBudget, chatId: string = character.id) {
+  const persona = getChatPersona(chatId);
+  const language = replyLanguage(character, settings, chatId);
+  const relationships = db.prepare('SELECT * FROM character_relationships WHERE character_id = ?').all(character.id) as any[];
+  const relationshipContext = relationships.map(r => {
+     const target = r.target_id === 'user' ? persona.name || 'User' : (db.prepare('SELECT name FROM characters WHERE id = ?').get(r.target_id) as any)?.name || 'Someone';
+     return `- Relationship with ${target}: ${r.relationship}. Context: ${r.description}`;
+  }).join('\n');
+
+  const stickers = db.prepare('SELECT * FROM stickers WHERE owner_id = ?').all(character.id) as any[];
+  const stickerItems = stickers.map((s: any) => `[sticker:${s.id}] (${s.description || t('no_description', {}, language)})`);
+  const stickerList = budget ? trimToBudget(stickerItems, budget.stickers, budget.provider, ', ').text : stickerItems.join(', ');
+
+  const memoryLines = buildMemoryContext(memoryOwnerIds).split('\n').filter(Boolean);
+  const memory = budget ? trimToBudget(memoryLines, budget.memory, budget.provider).text : memoryLines.join('\n');
+
+  return {
+    char: {
+      id: character.id,
+      name: character.name,
+      gender: character.gender || 'Unknown',
+      bio: character.bio || '',
+      personality: character.personality || '',
+      relationship: character.relationship || 'Friend',
+      background: character.background || '',
+      other_info: character.other_info || ''
+    },
+    user: personaVariables(persona),
+    relationships: relationshipContext || 'No specific relationships defined.',
+    stickers: stickerList || 'None',
+    memory: memory || 'Nothing yet.',
+    language: languageName(language)
+  };
+}
+
+export function formatHistory(history: any[]) {
+  return history.map(m => `${m.sender_name}: ${m.content}`).join('\n') || '(No previous conversation)';
+}
+
+// Fill {{history}} of a one-shot prompt with the newest messages of a chat that fit in what the
+// rest of the template leaves of the context budget
+export function fillHistory(useCase: string, ownerIds: string[], vars: any, chatId: string, settings: any, budget: ContextBudget = planContext(settings)) {
+  const template = resolveTemplate(useCase, ownerIds);
+  const base = estimateTokens(renderTemplate(template.content, { ...vars, history: '' }), budget.provider);
+  const { included } = fitHistory(recentMessages(chatId, PROMPT_HISTORY_MESSAGES), budget.prompt - base,
+    m => estimateTokens(`${m.sender_name}: ${m.content}\n`, budget.provider));
+  return { ...vars, history: formatHistory(included) };
+}
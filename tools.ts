@@ -0,0 +1,204 @@
+import db from './db';
+import { ToolCall, ToolSpec } from './providers';
+import { createMemory } from './memory';
+import { scheduleMessage } from './scheduler';
+import { t, getServerLanguage } from './language';
+
+// Tools characters can call during a chat reply. Each tool is enabled per character in
+// character_tools; without a stored row the tool's default applies. Invocations are shown
+// to the user as system messages by the caller (server.ts).
+
+export interface ToolContext {
+  character: any; // The character calling the tool
+  chatId: string; // Private chat (character id) or group id
+  settings: any;
+  language: string; // Reply language of the chat; notices are written in it
+}
+
+export interface ToolResult {
+  content: string; // Sent back to the model
+  notice: string; // Shown in the chat
+}
+
+// Labels shown to the user are the `tool_label_<name>` messages in language.ts
+export interface Tool {
+  name: string;
+  description: string;
+  parameters: object; // JSON schema of the arguments
+  defaultEnabled: boolean;
+  run(args: any, context: ToolContext): ToolResult | Promise<ToolResult>;
+}
+
+export const MAX_TOOL_ROUNDS = 3; // Model calls with tools per reply; the last answer is text only
+
+const tools = new Map<string, Tool>();
+
+export function registerTool(tool: Tool) {
+  tools.set(tool.name, tool);
+}
+
+export function getTool(name: string) {
+  return tools.get(name);
+}
+
+// A tool without a label message is shown by its name
+export function toolLabel(name: string, language: string = getServerLanguage()) {
+  const key = `tool_label_${name}`;
+  const label = t(key, {}, language);
+  return label === key ? name : label;
+}
+
+export function listTools(language: string = getServerLanguage()) {
+  return Array.from(tools.values()).map(t => ({ name: t.name, label: toolLabel(t.name, language), description: t.description, default_enabled: t.defaultEnabled }));
+}
+
+// Every registered tool with whether the character may use it
+export function getToolPermissions(characterId: string, language: string = getServerLanguage()) {
+  const rows = db.prepare('SELECT tool_name, enabled FROM character_tools WHERE character_id = ?').all(characterId) as any[];
+  const stored = new Map(rows.map(r => [r.tool_name, !!r.enabled]));
+  return listTools(language).map(t => ({ ...t, enabled: stored.get(t.name) ?? t.default_enabled, is_default: !stored.has(t.name) }));
+}
+
+// `permissions`: tool name -> enabled, or null to go back to the tool's default
+export function saveToolPermissions(characterId: string, permissions: Record<string, boolean | null>, language: string = getServerLanguage()) {
+  for (const name of Object.keys(permissions)) {
+    if (!tools.has(name)) throw new Error(t('unknown_tool', { name }, language));
+  }
+  const upsert = db.prepare('INSERT OR REPLACE INTO character_tools (character_id, tool_name, enabled) VALUES (?, ?, ?)');
+  const reset = db.prepare('DELETE FROM character_tools WHERE character_id = ? AND tool_name = ?');
+  db.transaction(() => {
+    for (const [name, enabled] of Object.entries(permissions)) {
+      if (enabled === null) reset.run(characterId, name);
+      else upsert.run(characterId, name, enabled ? 1 : 0);
+    }
+  })();
+  return getToolPermissions(characterId, language);
+}
+
+export function enabledTools(characterId: string) {
+  return getToolPermissions(characterId).filter(t => t.enabled).map(t => tools.get(t.name));
+}
+
+export function toolSpecs(list: Tool[]): ToolSpec[] {
+  return list.map(t => ({ name: t.name, description: t.description, parameters: t.parameters }));
+}
+
+// Run one call from the model. Failures are reported back to the model instead of aborting the reply.
+export async function runToolCall(call: ToolCall, allowed: Tool[], context: ToolContext): Promise<ToolResult & { ok: boolean }> {
+  const tool = allowed.find(t => t.name === call.name);
+  const { language } = context;
+  const name = context.character.name;
+  if (!tool) {
+    return { ok: false, content: `Error: tool ${call.name} is not available`, notice: t('tool_unauthorized', { name, tool: call.name }, language) };
+  }
+  try {
+    return { ok: true, ...await tool.run(call.arguments || {}, context) };
+  } catch (e: any) {
+    return { ok: false, content: `Error: ${e.message}`, notice: t('tool_failed', { name, tool: toolLabel(tool.name, language), error: e.message }, language) };
+  }
+}
+
+export function requireString(args: any, field: string, language: string) {
+  const value = typeof args[field] === 'string' ? args[field].trim() : '';
+  if (!value) throw new Error(t('field_required', { field }, language));
+  return value;
+}
+
+// Date and time in the configured timezone and the chat's language, as the user reads it
+function formatLocal(date: Date, language: string, timeZone?: string) {
+  try {
+    return new Intl.DateTimeFormat(language, { dateStyle: 'full', timeStyle: 'short', timeZone: timeZone || undefined }).format(date);
+  } catch (e) {
+    return date.toString();
+  }
+}
+
+// --- Built-in tools (post_moment is registered by server.ts, which owns moment interactions) ---
+
+registerTool({
+  name: 'get_datetime',
+  description: 'Get the current date, time and weekday of the user.',
+  parameters: { type: 'object', properties: {} },
+  defaultEnabled: true,
+  run(args, { character, settings, language }) {
+    const now = new Date();
+    return {
+      content: JSON.stringify({ local: formatLocal(now, language, settings.timezone), iso: now.toISOString(), timezone: settings.timezone || 'server' }),
+      notice: t('tool_datetime', { name: character.name }, language)
+    };
+  }
+});
+
+registerTool({
+  name: 'schedule_message',
+  description: 'Schedule a message to send to the user later, e.g. a reminder or a good-morning message. Give either delay_minutes or send_at.',
+  parameters: {
+    type: 'object',
+    properties: {
+      content: { type: 'string', description: 'The message text' },
+      delay_minutes: { type: 'integer', description: 'Minutes from now' },
+      send_at: { type: 'string', description: 'ISO 8601 date and time' }
+    },
+    required: ['content']
+  },
+  defaultEnabled: false,
+  run(args, { character, chatId, settings, language }) {
+    const content = requireString(args, 'content', language);
+    const dueAt = args.send_at ? new Date(args.send_at) : new Date(Date.now() + Number(args.delay_minutes) * 60 * 1000);
+    const scheduled = scheduleMessage(character.id, chatId, content, dueAt);
+    return {
+      content: JSON.stringify({ scheduled: true, id: scheduled.id, due_at: scheduled.due_at }),
+      notice: t('tool_scheduled', { name: character.name, time: formatLocal(dueAt, language, settings.timezone) }, language)
+    };
+  }
+});
+
+registerTool({
+  name: 'update_relationship',
+  description: 'Update how you see your relationship with the user or another character after something important happened.',
+  parameters: {
+    type: 'object',
+    properties: {
+      target: { type: 'string', description: '"user" or the name of another character' },
+      relationship: { type: 'string', description: 'Short label, e.g. Friend, Lover, Rival' },
+      description: { type: 'string', description: 'What the relationship is like now and why' }
+    },
+    required: ['target', 'relationship']
+  },
+  defaultEnabled: true,
+  run(args, { character, language }) {
+    const target = requireString(args, 'target', language);
+    const relationship = requireString(args, 'relationship', language);
+    let targetId = 'user';
+    let targetName = t('the_user', {}, language);
+    if (!/^(user|用户)$/i.test(target)) {
+      const other = db.prepare('SELECT id, name FROM characters WHERE (id = ? OR name = ?) AND is_group = 0 AND id != ?').get(target, target, character.id) as any;
+      if (!other) throw new Error(t('unknown_character', { name: target }, language));
+      targetId = other.id;
+      targetName = other.name;
+    }
+    const description = typeof args.description === 'string' ? args.description.trim() : '';
+    db.prepare('INSERT OR REPLACE INTO character_relationships (character_id, target_id, relationship, description) VALUES (?, ?, ?, ?)')
+      .run(character.id, targetId, relationship, description);
+    return { content: JSON.stringify({ updated: true }), notice: t('tool_relationship', { name: character.name, target: targetName, relationship }, language) };
+  }
+});
+
+registerTool({
+  name: 'save_memory',
+  description: 'Remember a durable fact about the user or this conversation (names, preferences, promises, dates).',
+  parameters: {
+    type: 'object',
+    properties: {
+      content: { type: 'string', description: 'The fact to remember' },
+      important: { type: 'boolean', description: 'Pin it so it is never forgotten' }
+    },
+    required: ['content']
+  },
+  defaultEnabled: true,
+  run(args, { character, chatId, language }) {
+    const content = requireString(args, 'content', language);
+    const memory = createMemory(chatId, 'fact', content, !!args.important, 'tool');
+    return { content: JSON.stringify({ saved: true, id: memory.id }), notice: t('tool_memory', { name: character.name, content }, language) };
+  }
+});
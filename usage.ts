@@ -0,0 +1,180 @@
+import db from './db';
+import { v4 as uuidv4 } from 'uuid';
+import { Usage } from './providers';
+import { estimateTokens, countMessageTokens } from './context';
+import { t } from './language';
+
+// Usage and cost accounting: every chat, vision, image and audio call is logged to usage_log with its
+// tokens, latency and outcome. Costs use the price table at the time of the call.
+
+export type UsagePurpose = 'chat' | 'proactive' | 'nudge' | 'moment' | 'comment' | 'comment_reply' | 'memory' | 'director' | 'vision' | 'image' | 'transcription' | 'speech';
+
+export interface UsageMeta {
+  purpose: UsagePurpose;
+  characterId?: string; // Who the call speaks for
+  chatId?: string;
+}
+
+// USD per million prompt / completion tokens, or per generated image
+export interface Price {
+  prompt?: number;
+  completion?: number;
+  image?: number;
+}
+
+// Matched by exact model name first, then by the longest prefix. `price_table` entries override these.
+export const DEFAULT_PRICES: Record<string, Price> = {
+  'gpt-3.5-turbo': { prompt: 0.5, completion: 1.5 },
+  'gpt-4o-mini': { prompt: 0.15, completion: 0.6 },
+  'gpt-4o': { prompt: 2.5, completion: 10 },
+  'gpt-4.1-mini': { prompt: 0.4, completion: 1.6 },
+  'gpt-4.1': { prompt: 2, completion: 8 },
+  'dall-e-3': { image: 0.04 },
+  'claude-3-5-haiku': { prompt: 0.8, completion: 4 },
+  'claude-3-5-sonnet': { prompt: 3, completion: 15 },
+  'gemini-2.5-flash-image': { image: 0.039 },
+  'gemini-2.5-flash': { prompt: 0.3, completion: 2.5 },
+  'gemini-3-flash': { prompt: 0.5, completion: 3 },
+  'deepseek-chat': { prompt: 0.27, completion: 1.1 }
+};
+
+export const SUMMARY_GROUPS: Record<string, string> = {
+  day: 'day',
+  model: 'model',
+  character: 'character_id',
+  purpose: 'purpose',
+  provider: 'provider'
+};
+
+// `price_table` setting: JSON object of model -> { prompt, completion, image }
+export function parsePriceTable(value: any): Record<string, Price> {
+  const raw = typeof value === 'string' ? (value ? JSON.parse(value) : {}) : (value || {});
+  if (typeof raw !== 'object' || Array.isArray(raw)) throw new Error(t('invalid_price_table'));
+  const table: Record<string, Price> = {};
+  for (const [model, price] of Object.entries<any>(raw)) {
+    if (!price || typeof price !== 'object') throw new Error(t('invalid_price', { model }));
+    const entry: Price = {};
+    for (const field of ['prompt', 'completion', 'image'] as const) {
+      if (price[field] === undefined) continue;
+      const n = Number(price[field]);
+      if (!Number.isFinite(n) || n < 0) throw new Error(t('invalid_price_field', { field, model, value: price[field] }));
+      entry[field] = n;
+    }
+    table[model] = entry;
+  }
+  return table;
+}
+
+export function getPriceTable(settings: any) {
+  try {
+    return { ...DEFAULT_PRICES, ...parsePriceTable(settings.price_table) };
+  } catch (e: any) {
+    console.warn("Ignoring invalid price_table setting:", e.message);
+    return { ...DEFAULT_PRICES };
+  }
+}
+
+function findPrice(table: Record<string, Price>, model: string): Price {
+  if (table[model]) return table[model];
+  const prefix = Object.keys(table).filter(key => model.startsWith(key)).sort((a, b) => b.length - a.length)[0];
+  return prefix ? table[prefix] : {};
+}
+
+export function computeCost(table: Record<string, Price>, model: string, promptTokens: number, completionTokens: number, images: number) {
+  const price = findPrice(table, model || '');
+  return (promptTokens * (price.prompt || 0) + completionTokens * (price.completion || 0)) / 1e6 + images * (price.image || 0);
+}
+
+// Calendar day of a timestamp in the configured timezone
+function dayOf(date: Date, timeZone?: string) {
+  try {
+    return new Intl.DateTimeFormat('en-CA', { year: 'numeric', month: '2-digit', day: '2-digit', timeZone: timeZone || undefined }).format(date);
+  } catch (e) {
+    return date.toISOString().slice(0, 10);
+  }
+}
+
+// Run one provider call and log it. `prompt` (text or chat messages) is used to estimate tokens
+// when the API reports none; image calls count one image per returned result.
+export async function trackUsage<T>(settings: any, call: { provider: string; model: string; meta: UsageMeta; prompt: string | any[] },
+  run: (onUsage: (usage: Usage) => void) => Promise<T>): Promise<T> {
+  const started = Date.now();
+  let reported: Usage | null = null;
+  const log = (result: T | null, error: any) => {
+    const isImage = call.meta.purpose === 'image';
+    const estimatedPrompt = typeof call.prompt === 'string' ? estimateTokens(call.prompt, call.provider) : countMessageTokens(call.prompt, call.provider);
+    // Failed calls are only charged for what the API reported
+    const promptTokens = reported?.promptTokens ?? (error ? 0 : estimatedPrompt);
+    const completionTokens = reported?.completionTokens ?? (!isImage && typeof result === 'string' ? estimateTokens(result, call.provider) : 0);
+    const images = isImage && result ? 1 : 0;
+    const cost = computeCost(getPriceTable(settings), call.model, promptTokens, completionTokens, images);
+    const now = new Date();
+    try {
+      db.prepare(`INSERT INTO usage_log (id, timestamp, day, provider, model, purpose, character_id, chat_id, prompt_tokens, completion_tokens,
+        images, estimated, cost, latency_ms, success, error) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`)
+        .run(uuidv4(), now.toISOString(), dayOf(now, settings.timezone), call.provider, call.model || '', call.meta.purpose,
+          call.meta.characterId || null, call.meta.chatId || null, promptTokens, completionTokens, images,
+          reported?.promptTokens === undefined ? 1 : 0, cost, Date.now() - started, error ? 0 : 1, error ? String(error.message || error) : null);
+    } catch (e) {
+      console.error("Usage Log Error:", e);
+    }
+  };
+
+  try {
+    const result = await run(usage => { reported = { ...reported, ...usage }; });
+    log(result, null);
+    return result;
+  } catch (e) {
+    log(null, e);
+    throw e;
+  }
+}
+
+export function listUsage(options: { limit?: any; offset?: any; characterId?: string; purpose?: string }) {
+  const limit = Math.min(Math.max(Number(options.limit) || 50, 1), 500);
+  const offset = Math.max(Number(options.offset) || 0, 0);
+  const where: string[] = [];
+  const params: any[] = [];
+  if (options.characterId) {
+    where.push('character_id = ?');
+    params.push(options.characterId);
+  }
+  if (options.purpose) {
+    where.push('purpose = ?');
+    params.push(options.purpose);
+  }
+  return db.prepare(`SELECT * FROM usage_log ${where.length ? `WHERE ${where.join(' AND ')}` : ''} ORDER BY timestamp DESC LIMIT ? OFFSET ?`)
+    .all(...params, limit, offset);
+}
+
+// Totals grouped by day, model, character, purpose or provider; `from`/`to` are inclusive days (YYYY-MM-DD)
+export function usageSummary(by: string, options: { from?: string; to?: string } = {}) {
+  const column = SUMMARY_GROUPS[by];
+  if (!column) throw new Error(`Unknown summary grouping: ${by}`);
+  const rows = db.prepare(`
+    SELECT ${column} AS key, COUNT(*) AS calls, SUM(1 - success) AS errors, SUM(prompt_tokens) AS prompt_tokens,
+      SUM(completion_tokens) AS completion_tokens, SUM(images) AS images, SUM(cost) AS cost, AVG(latency_ms) AS avg_latency_ms
+    FROM usage_log WHERE day >= ? AND day <= ?
+    GROUP BY ${column} ORDER BY ${by === 'day' ? 'key DESC' : 'cost DESC, calls DESC'}
+  `).all(options.from || '0000-00-00', options.to || '9999-99-99') as any[];
+  if (by !== 'character') return rows;
+  // Resolve names; calls without a character (memory of a group, vision) stay unnamed
+  return rows.map(r => ({ ...r, name: r.key ? (db.prepare('SELECT name FROM characters WHERE id = ?').get(r.key) as any)?.name || null : null }));
+}
+
+// Today's spend against the optional `daily_budget_cost` (USD) and `daily_budget_tokens` settings
+export function getDailyBudget(settings: any) {
+  const day = dayOf(new Date(), settings.timezone);
+  const today = db.prepare('SELECT COALESCE(SUM(cost), 0) AS cost, COALESCE(SUM(prompt_tokens + completion_tokens), 0) AS tokens FROM usage_log WHERE day = ?')
+    .get(day) as any;
+  const costLimit = Number(settings.daily_budget_cost) || 0;
+  const tokenLimit = Number(settings.daily_budget_tokens) || 0;
+  let exceeded: string | null = null;
+  if (costLimit > 0 && today.cost >= costLimit) exceeded = t('daily_cost_budget', { limit: costLimit });
+  else if (tokenLimit > 0 && today.tokens >= tokenLimit) exceeded = t('daily_token_budget', { limit: tokenLimit });
+  return { day, cost: today.cost, tokens: today.tokens, cost_limit: costLimit || null, token_limit: tokenLimit || null, exceeded };
+}
+
+export function isOverBudget(settings: any) {
+  return getDailyBudget(settings).exceeded !== null;
+}
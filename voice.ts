@@ -0,0 +1,68 @@
+// Voice messages. The user's recordings are transcribed (purpose 'transcription') and the transcript
+// is the message content, so history, memory and search treat them as text; the audio is kept in
+// messages.audio. Characters speak their text parts (purpose 'speech') by characters.voice_mode:
+// 'off', 'always', or 'mirror' (only when the user's last message was a voice message). No database
+// access here: providers.ts uses the WAV helpers.
+
+export const VOICE_MODES = ['off', 'always', 'mirror'];
+export const DEFAULT_VOICE_SPEED = 1;
+export const MIN_VOICE_SPEED = 0.25;
+export const MAX_VOICE_SPEED = 4;
+
+export function isVoiceMode(value: any) {
+  return VOICE_MODES.includes(value);
+}
+
+// Speaking rate as the speech endpoint accepts it; anything else is the normal rate
+export function voiceSpeed(value: any) {
+  const speed = Number(value);
+  if (!Number.isFinite(speed) || speed <= 0) return DEFAULT_VOICE_SPEED;
+  return Math.min(MAX_VOICE_SPEED, Math.max(MIN_VOICE_SPEED, speed));
+}
+
+// Whether a character answers with voice; `lastUserType` is the type of the message being answered
+export function shouldSpeak(character: any, lastUserType?: string) {
+  if (character.voice_mode === 'always') return true;
+  return character.voice_mode === 'mirror' && lastUserType === 'voice';
+}
+
+// Seconds of PCM audio from a WAV header (null for other formats or a header it cannot read).
+// Streamed WAVs carry a placeholder data size, so the size of what follows the header is used then.
+export function wavDuration(data: Buffer) {
+  if (data.length < 44 || data.toString('ascii', 0, 4) !== 'RIFF' || data.toString('ascii', 8, 12) !== 'WAVE') return null;
+  let byteRate = 0;
+  let offset = 12;
+  while (offset + 8 <= data.length) {
+    const chunk = data.toString('ascii', offset, offset + 4);
+    const size = data.readUInt32LE(offset + 4);
+    if (chunk === 'fmt ') byteRate = data.readUInt32LE(offset + 16);
+    if (chunk === 'data') {
+      if (!byteRate) return null;
+      const available = data.length - offset - 8;
+      return Math.min(size, available) / byteRate;
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+}
+
+// 16 kHz mono 16-bit silence (connection tests of transcription endpoints)
+export function silentWav(seconds: number) {
+  const sampleRate = 16000;
+  const dataSize = Math.round(seconds * sampleRate) * 2;
+  const wav = Buffer.alloc(44 + dataSize);
+  wav.write('RIFF', 0, 'ascii');
+  wav.writeUInt32LE(36 + dataSize, 4);
+  wav.write('WAVE', 8, 'ascii');
+  wav.write('fmt ', 12, 'ascii');
+  wav.writeUInt32LE(16, 16);
+  wav.writeUInt16LE(1, 20); // PCM
+  wav.writeUInt16LE(1, 22); // Mono
+  wav.writeUInt32LE(sampleRate, 24);
+  wav.writeUInt32LE(sampleRate * 2, 28);
+  wav.writeUInt16LE(2, 32);
+  wav.writeUInt16LE(16, 34);
+  wav.write('data', 36, 'ascii');
+  wav.writeUInt32LE(dataSize, 40);
+  return wav;
+}